@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for App Store JWS Verification
+ *
+ * Uses a throwaway certificate chain (see fixtures/app-store-certs.ts) in
+ * place of Apple's, signed locally with the leaf key.
+ */
+
+import { createPrivateKey, sign, X509Certificate } from "crypto";
+import { verifyAppStoreJws, JwsVerificationError } from "../utils/app-store-jws";
+import {
+  TEST_ROOT_CA_PEM,
+  TEST_INTERMEDIATE_PEM,
+  TEST_LEAF_PEM,
+  TEST_LEAF_PRIVATE_KEY_PEM,
+  UNTRUSTED_ROOT_CA_PEM,
+} from "./fixtures/app-store-certs";
+
+const toDerBase64 = (pem: string) => new X509Certificate(pem).raw.toString("base64");
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function signJws(
+  payload: unknown,
+  options: { alg?: string; chain?: string[] } = {}
+): string {
+  const header = {
+    alg: options.alg ?? "ES256",
+    x5c: (options.chain ?? [TEST_LEAF_PEM, TEST_INTERMEDIATE_PEM, TEST_ROOT_CA_PEM]).map(toDerBase64),
+  };
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = sign("sha256", Buffer.from(signingInput), {
+    key: createPrivateKey(TEST_LEAF_PRIVATE_KEY_PEM),
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+const transaction = {
+  transactionId: "2000000123",
+  originalTransactionId: "2000000100",
+  bundleId: "jamesschaffer.AlbumScan",
+  productId: "albumscan_ultra_annual",
+  purchaseDate: 1760000000000,
+  expiresDate: 1791536000000,
+};
+
+describe("verifyAppStoreJws", () => {
+  it("should return the payload of a correctly signed JWS", () => {
+    const jws = signJws(transaction);
+    expect(verifyAppStoreJws(jws, [TEST_ROOT_CA_PEM])).toEqual(transaction);
+  });
+
+  it("should reject a chain that ends at an untrusted root", () => {
+    const jws = signJws(transaction);
+    expect(() => verifyAppStoreJws(jws, [UNTRUSTED_ROOT_CA_PEM])).toThrow(
+      "Certificate chain does not end at a trusted root"
+    );
+  });
+
+  it("should reject a tampered payload", () => {
+    const [header, , signature] = signJws(transaction).split(".");
+    const forged = `${header}.${encode({ ...transaction, productId: "albumscan_base_annual" })}.${signature}`;
+    expect(() => verifyAppStoreJws(forged, [TEST_ROOT_CA_PEM])).toThrow("JWS signature is invalid");
+  });
+
+  it("should reject a chain whose links do not verify", () => {
+    const jws = signJws(transaction, {
+      chain: [TEST_LEAF_PEM, TEST_INTERMEDIATE_PEM, UNTRUSTED_ROOT_CA_PEM],
+    });
+    expect(() => verifyAppStoreJws(jws, [UNTRUSTED_ROOT_CA_PEM])).toThrow(
+      "Certificate chain signature is invalid"
+    );
+  });
+
+  it("should reject certificates without Apple marker extensions", () => {
+    // The root does not carry the leaf marker, even though the roles link up
+    const jws = signJws(transaction, {
+      chain: [TEST_INTERMEDIATE_PEM, TEST_ROOT_CA_PEM, TEST_ROOT_CA_PEM],
+    });
+    expect(() => verifyAppStoreJws(jws, [TEST_ROOT_CA_PEM])).toThrow(JwsVerificationError);
+  });
+
+  it("should reject certificates outside their validity period", () => {
+    const jws = signJws(transaction);
+    expect(() => verifyAppStoreJws(jws, [TEST_ROOT_CA_PEM], new Date("2000-01-01"))).toThrow(
+      "is not valid at"
+    );
+  });
+
+  it("should reject algorithms other than ES256", () => {
+    const jws = signJws(transaction, { alg: "none" });
+    expect(() => verifyAppStoreJws(jws, [TEST_ROOT_CA_PEM])).toThrow("Unsupported JWS algorithm");
+  });
+
+  it("should reject malformed input", () => {
+    expect(() => verifyAppStoreJws("not-a-jws", [TEST_ROOT_CA_PEM])).toThrow(
+      "JWS must have three segments"
+    );
+    expect(() => verifyAppStoreJws("!!.??.##", [TEST_ROOT_CA_PEM])).toThrow("Malformed JWS header");
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for Barcode and Catalog Number Identification
+ *
+ * Runs code lookups against the local MusicBrainz stand-in.
+ */
+
+import { SEARCH_FINALIZATION_SCHEMA, validateSchema } from "../schemas";
+import { MusicBrainzError, MusicBrainzRelease } from "../utils/musicbrainz";
+import { describeCode, identifyReleaseByCode, normalizeBarcode } from "../utils/code-identification";
+import { StandIn, startMusicBrainzStandIn } from "./fixtures/musicbrainz-stand-in";
+
+const BARCODE = "0724384260927";
+
+const PRESSING: MusicBrainzRelease = {
+  id: "release-1",
+  score: 100,
+  title: "OK Computer",
+  date: "1997-07-01",
+  "artist-credit": [{ name: "Radiohead" }],
+  "release-group": { id: "rg-1" },
+  "label-info": [{ "catalog-number": "CDNODATA 02", label: { id: "l-1", name: "Parlophone" } }],
+};
+
+const RELEASE_GROUP = {
+  id: "rg-1",
+  title: "OK Computer",
+  "first-release-date": "1997-05-21",
+  "artist-credit": [{ name: "Radiohead" }],
+  genres: [
+    { name: "art rock", count: 3 },
+    { name: "alternative rock", count: 9 },
+    { name: "electronic", count: 1 },
+    { name: "experimental", count: 2 },
+  ],
+};
+
+describe("normalizeBarcode", () => {
+  it("should strip spaces and dashes from 8-14 digit codes", () => {
+    expect(normalizeBarcode("0 7243-84260 9 27")).toBe(BARCODE);
+    expect(normalizeBarcode("1234567")).toBeNull();
+    expect(normalizeBarcode("07243842609X")).toBeNull();
+  });
+});
+
+describe("identifyReleaseByCode", () => {
+  let standIn: StandIn | null = null;
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+  });
+
+  it("should identify a barcode with high confidence and the most-voted genres", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": (url) => ({
+        body: { releases: url.searchParams.get("query") === `barcode:${BARCODE}` ? [PRESSING] : [] },
+      }),
+      "/ws/2/release-group/rg-1": { body: RELEASE_GROUP },
+    });
+
+    const content = await identifyReleaseByCode(standIn.client(), { barcode: BARCODE });
+    const identification = JSON.parse(content!);
+
+    expect(validateSchema(SEARCH_FINALIZATION_SCHEMA, identification).violations).toEqual([]);
+    expect(identification).toMatchObject({
+      artistName: "Radiohead",
+      albumTitle: "OK Computer",
+      releaseYear: "1997",
+      genres: ["Alternative Rock", "Art Rock", "Experimental"],
+      recordLabel: "Parlophone",
+      confidence: "high",
+    });
+    expect(identification.observation.extractedText).toBe(`Barcode: ${BARCODE}`);
+  });
+
+  it("should keep only releases carrying the catalog number", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": {
+        body: {
+          releases: [
+            { ...PRESSING, id: "near-miss", "release-group": { id: "rg-2" }, "label-info": [{ "catalog-number": "CDNODATA 020" }] },
+            PRESSING,
+          ],
+        },
+      },
+      "/ws/2/release-group/rg-1": { body: RELEASE_GROUP },
+    });
+
+    const content = await identifyReleaseByCode(standIn.client(), { catalogNumber: "cdnodata-02", label: "Parlophone" });
+
+    expect(JSON.parse(content!)).toMatchObject({ albumTitle: "OK Computer", confidence: "high" });
+    expect(standIn.requests[0].path).toContain(encodeURIComponent("label:"));
+  });
+
+  it("should match non-Latin catalog numbers only to releases carrying them", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": {
+        body: {
+          releases: [
+            { ...PRESSING, id: "other", "release-group": { id: "rg-2" }, "label-info": [{ "catalog-number": "限定盤" }] },
+            { ...PRESSING, "label-info": [{ "catalog-number": "初回盤" }] },
+          ],
+        },
+      },
+      "/ws/2/release-group/rg-1": { body: RELEASE_GROUP },
+    });
+
+    const content = await identifyReleaseByCode(standIn.client(), { catalogNumber: "初回盤" });
+
+    expect(JSON.parse(content!)).toMatchObject({ albumTitle: "OK Computer", confidence: "high" });
+  });
+
+  it("should lower confidence when a code is shared by several albums", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": {
+        body: { releases: [PRESSING, { ...PRESSING, id: "release-2", "release-group": { id: "rg-2" } }] },
+      },
+      "/ws/2/release-group/rg-1": { body: RELEASE_GROUP },
+    });
+
+    const identification = JSON.parse((await identifyReleaseByCode(standIn.client(), { barcode: BARCODE }))!);
+
+    expect(identification.confidence).toBe("medium");
+    expect(identification.rationale).toContain("shared by 2 albums");
+  });
+
+  it("should return null without a confident match", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": { body: { releases: [{ ...PRESSING, score: 60 }] } },
+    });
+
+    expect(await identifyReleaseByCode(standIn.client(), { barcode: BARCODE })).toBeNull();
+  });
+
+  it("should throw MusicBrainzError when MusicBrainz errors", async () => {
+    standIn = await startMusicBrainzStandIn({ "/ws/2/release": { status: 503 } });
+
+    await expect(identifyReleaseByCode(standIn.client(), { barcode: BARCODE })).rejects.toBeInstanceOf(MusicBrainzError);
+  });
+});
+
+describe("describeCode", () => {
+  it("should name the code and label", () => {
+    expect(describeCode({ catalogNumber: "CDP 7 46001 2", label: "Capitol" })).toBe("Catalog number: CDP 7 46001 2 (Capitol)");
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for Device Identity Resolution
+ */
+
+import {
+  resolveDeviceIdentity,
+  isSharedDeviceId,
+  isValidInstallationId,
+  UNKNOWN_DEVICE_ID,
+} from "../utils/device-identity";
+
+const FID = "cW9fZ2VuZXJhdGVkX2lkXw";
+const APP_ID = "1:123456789:ios:abcdef";
+
+describe("isValidInstallationId", () => {
+  it("should accept a well-formed installation ID", () => {
+    expect(isValidInstallationId(FID)).toBe(true);
+  });
+
+  it("should reject IDs with the wrong length or prefix", () => {
+    expect(isValidInstallationId("cShort")).toBe(false);
+    expect(isValidInstallationId("aW9fZ2VuZXJhdGVkX2lkXw")).toBe(false);
+    expect(isValidInstallationId(`${FID}x`)).toBe(false);
+  });
+
+  it("should reject non-string values", () => {
+    expect(isValidInstallationId(undefined)).toBe(false);
+    expect(isValidInstallationId(12345)).toBe(false);
+  });
+});
+
+describe("resolveDeviceIdentity", () => {
+  it("should prefer the Auth uid over everything else", () => {
+    const identity = resolveDeviceIdentity({
+      auth: { uid: "anon-uid" },
+      app: { appId: APP_ID },
+      data: { installationId: FID },
+    });
+    expect(identity).toEqual({ id: "auth:anon-uid", source: "auth", shared: false });
+  });
+
+  it("should not key on an unverified installation ID", () => {
+    const identity = resolveDeviceIdentity({
+      app: { appId: APP_ID },
+      data: { installationId: FID },
+    });
+    expect(identity).toEqual({
+      id: `app:${APP_ID}`,
+      source: "app-check",
+      shared: true,
+      claimedInstallationId: FID,
+    });
+  });
+
+  it("should share one bucket however many installation IDs are sent", () => {
+    const ids = ["cW9fZ2VuZXJhdGVkX2lkXw", "dW9fZ2VuZXJhdGVkX2lkXx", "eW9fZ2VuZXJhdGVkX2lkXy"]
+      .map((installationId) => resolveDeviceIdentity({ app: { appId: APP_ID }, data: { installationId } }).id);
+    expect(new Set(ids).size).toBe(1);
+  });
+
+  it("should not log malformed installation IDs", () => {
+    const identity = resolveDeviceIdentity({
+      app: { appId: APP_ID },
+      data: { installationId: "../../etc/passwd" },
+    });
+    expect(identity.claimedInstallationId).toBeUndefined();
+  });
+
+  it("should fall back to the shared App Check app ID", () => {
+    const identity = resolveDeviceIdentity({ app: { appId: APP_ID }, data: {} });
+    expect(identity).toEqual({ id: `app:${APP_ID}`, source: "app-check", shared: true });
+  });
+
+  it("should return unknown-device when nothing is available", () => {
+    const identity = resolveDeviceIdentity({ data: undefined });
+    expect(identity).toEqual({ id: UNKNOWN_DEVICE_ID, source: "unknown", shared: true });
+  });
+});
+
+describe("isSharedDeviceId", () => {
+  it("should flag the App Check app ID and unknown-device as shared", () => {
+    expect(isSharedDeviceId(`app:${APP_ID}`)).toBe(true);
+    expect(isSharedDeviceId(UNKNOWN_DEVICE_ID)).toBe(true);
+    expect(isSharedDeviceId("auth:abc123")).toBe(false);
+  });
+});
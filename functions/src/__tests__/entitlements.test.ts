@@ -0,0 +1,184 @@
+/**
+ * Unit Tests for Subscription Entitlements
+ *
+ * Tier and quota rules are tested directly. The Firestore-backed store runs
+ * against an in-memory Firestore, and also against the emulator when
+ * FIRESTORE_EMULATOR_HOST is set (see `npm run test:emulator`).
+ */
+
+import {
+  entitlementFromTransaction,
+  effectiveTier,
+  tierSatisfies,
+  parseEnforcementMode,
+  utcDayKey,
+  EntitlementStore,
+  EntitlementRecord,
+  DeviceLimitError,
+  SandboxTransactionError,
+  MAX_DEVICES_PER_SUBSCRIPTION,
+} from "../utils/entitlements";
+import { AppStoreTransaction } from "../utils/app-store-jws";
+import { describeFirestore } from "./fixtures/firestore";
+
+const NOW = Date.parse("2026-06-01T12:00:00Z");
+
+const transaction: AppStoreTransaction = {
+  transactionId: "2000000123",
+  originalTransactionId: "2000000100",
+  bundleId: "jamesschaffer.AlbumScan",
+  productId: "albumscan_ultra_annual",
+  purchaseDate: NOW - 1000,
+  expiresDate: NOW + 365 * 24 * 60 * 60 * 1000,
+  signedDate: NOW,
+};
+
+describe("entitlementFromTransaction", () => {
+  it("should map the product to its tier", () => {
+    const record = entitlementFromTransaction(transaction);
+    expect(record.tier).toBe("ultra");
+    expect(record.expiresAt).toBe(transaction.expiresDate);
+    expect(record.revokedAt).toBeNull();
+  });
+
+  it("should map the base product", () => {
+    const record = entitlementFromTransaction({ ...transaction, productId: "albumscan_base_annual" });
+    expect(record.tier).toBe("base");
+  });
+
+  it("should reject unknown bundles and products", () => {
+    expect(() => entitlementFromTransaction({ ...transaction, bundleId: "com.example.other" }))
+      .toThrow("Unrecognized bundle ID");
+    expect(() => entitlementFromTransaction({ ...transaction, productId: "coins_100" }))
+      .toThrow("Unrecognized product ID");
+  });
+
+  it("should reject sandbox transactions unless sandbox is allowed", () => {
+    const sandbox = { ...transaction, environment: "Sandbox" };
+    expect(() => entitlementFromTransaction(sandbox)).toThrow(SandboxTransactionError);
+    expect(entitlementFromTransaction(sandbox, { allowSandbox: true }).environment).toBe("Sandbox");
+    expect(entitlementFromTransaction({ ...transaction, environment: "Production" }).tier).toBe("ultra");
+  });
+});
+
+describe("effectiveTier", () => {
+  const record: EntitlementRecord = entitlementFromTransaction(transaction);
+
+  it("should grant the tier while the subscription is active", () => {
+    expect(effectiveTier(record, NOW)).toBe("ultra");
+  });
+
+  it("should fall back to free after expiry", () => {
+    expect(effectiveTier({ ...record, expiresAt: NOW - 1 }, NOW)).toBe("free");
+  });
+
+  it("should fall back to free after revocation (refund)", () => {
+    expect(effectiveTier({ ...record, revokedAt: NOW - 1 }, NOW)).toBe("free");
+  });
+
+  it("should treat a missing record as free", () => {
+    expect(effectiveTier(undefined, NOW)).toBe("free");
+  });
+});
+
+describe("tierSatisfies", () => {
+  it("should order tiers free < base < ultra", () => {
+    expect(tierSatisfies("ultra", "ultra")).toBe(true);
+    expect(tierSatisfies("ultra", "base")).toBe(true);
+    expect(tierSatisfies("base", "ultra")).toBe(false);
+    expect(tierSatisfies("free", "base")).toBe(false);
+  });
+});
+
+describe("parseEnforcementMode", () => {
+  it("should accept known modes and default to monitor", () => {
+    expect(parseEnforcementMode("enforce")).toBe("enforce");
+    expect(parseEnforcementMode("off")).toBe("off");
+    expect(parseEnforcementMode("ENFORCE")).toBe("monitor");
+    expect(parseEnforcementMode(undefined)).toBe("monitor");
+  });
+});
+
+describe("utcDayKey", () => {
+  it("should use the UTC calendar day", () => {
+    expect(utcDayKey(Date.parse("2026-06-01T23:59:59Z"))).toBe("2026-06-01");
+    expect(utcDayKey(Date.parse("2026-06-02T00:00:00Z"))).toBe("2026-06-02");
+  });
+});
+
+describeFirestore("EntitlementStore", (db) => {
+  let store: EntitlementStore;
+
+  beforeEach(() => {
+    store = new EntitlementStore(db(), { quotas: { free: 2, base: 3, ultra: 4 }, now: () => NOW });
+  });
+
+  it("should resolve the tier of a linked device", async () => {
+    const deviceId = `fid:device-${Date.now()}`;
+    expect(await store.getTier(deviceId)).toBe("free");
+
+    await store.linkTransaction(deviceId, { ...transaction, originalTransactionId: `otid-${Date.now()}` });
+    expect(await store.getTier(deviceId)).toBe("ultra");
+  });
+
+  it("should not link a sandbox transaction in production", async () => {
+    const deviceId = `fid:sandbox-${Date.now()}`;
+    const sandbox = { ...transaction, originalTransactionId: `otid-sandbox-${Date.now()}`, environment: "Sandbox" };
+
+    await expect(store.linkTransaction(deviceId, sandbox)).rejects.toThrow(SandboxTransactionError);
+    expect(await store.getTier(deviceId)).toBe("free");
+  });
+
+  it("should refuse the same transaction synced from more devices than the cap", async () => {
+    const signed = { ...transaction, originalTransactionId: `otid-shared-${Date.now()}` };
+    const devices = Array.from({ length: MAX_DEVICES_PER_SUBSCRIPTION + 1 }, (_, i) => `auth:shared-${Date.now()}-${i}`);
+    for (const deviceId of devices.slice(0, -1)) {
+      await store.linkTransaction(deviceId, signed);
+    }
+
+    await expect(store.linkTransaction(devices[devices.length - 1], signed)).rejects.toThrow(DeviceLimitError);
+    expect(await store.getTier(devices[devices.length - 1])).toBe("free");
+
+    // Linked devices can keep syncing
+    await store.linkTransaction(devices[0], signed);
+    expect(await store.getTier(devices[0])).toBe("ultra");
+  });
+
+  it("should refuse a second device when limited to one", async () => {
+    const single = new EntitlementStore(db(), { maxDevicesPerSubscription: 1, now: () => NOW });
+    const signed = { ...transaction, originalTransactionId: `otid-single-${Date.now()}` };
+    await single.linkTransaction(`auth:first-${Date.now()}`, signed);
+    await expect(single.linkTransaction(`auth:second-${Date.now()}`, signed)).rejects.toThrow(DeviceLimitError);
+  });
+
+  it("should free a device's slot when it links another subscription", async () => {
+    const single = new EntitlementStore(db(), { maxDevicesPerSubscription: 1, now: () => NOW });
+    const first = { ...transaction, originalTransactionId: `otid-first-${Date.now()}` };
+    const second = { ...transaction, originalTransactionId: `otid-second-${Date.now()}` };
+    const deviceId = `auth:mover-${Date.now()}`;
+    await single.linkTransaction(deviceId, first);
+    await single.linkTransaction(deviceId, second);
+
+    await single.linkTransaction(`auth:next-${Date.now()}`, first);
+  });
+
+  it("should ignore notifications older than the stored transaction", async () => {
+    const originalTransactionId = `otid-order-${Date.now()}`;
+    await store.applyTransaction({ ...transaction, originalTransactionId, signedDate: NOW });
+    const stale = await store.applyTransaction({
+      ...transaction,
+      originalTransactionId,
+      revocationDate: NOW - 10,
+      signedDate: NOW - 5000,
+    });
+    expect(stale.revokedAt).toBeNull();
+  });
+
+  it("should enforce the daily quota per tier", async () => {
+    const deviceId = `fid:quota-${Date.now()}`;
+    expect((await store.consumeDailyScan(deviceId, "free")).allowed).toBe(true);
+    expect((await store.consumeDailyScan(deviceId, "free")).allowed).toBe(true);
+    const denied = await store.consumeDailyScan(deviceId, "free");
+    expect(denied).toEqual({ allowed: false, used: 2, limit: 2 });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for A/B Experiments
+ *
+ * Tests config validation, deterministic bucketing, traffic splits and
+ * outcome aggregation.
+ */
+
+import {
+  Experiment,
+  ExperimentOutcome,
+  aggregateOutcomes,
+  applySearchPolicy,
+  assignArm,
+  bucketPosition,
+  formatMetricsTable,
+  isDefaultArm,
+  parseExperiments,
+  resolveAssignment,
+} from "../utils/experiments";
+
+const PROVIDER_TEST: Experiment = {
+  id: "id-provider",
+  functions: ["identifyAlbumGemini"],
+  arms: [
+    { name: "gemini", weight: 80, provider: "gemini" },
+    { name: "openai", weight: 20, provider: "openai" },
+  ],
+};
+
+function outcome(overrides: Partial<ExperimentOutcome>): ExperimentOutcome {
+  return {
+    experimentId: "id-provider",
+    arm: "gemini",
+    functionName: "identifyAlbumGemini",
+    deviceId: "fid:x",
+    provider: "gemini",
+    model: "m",
+    latencyMs: 1000,
+    jsonValid: true,
+    finishReason: "STOP",
+    inputTokens: 100,
+    outputTokens: 50,
+    totalTokens: 150,
+    retries: 0,
+    retryReasons: [],
+    timestamp: 0,
+    ...overrides,
+  };
+}
+
+describe("parseExperiments", () => {
+  it("should accept a valid config", () => {
+    expect(parseExperiments(JSON.stringify([PROVIDER_TEST]))).toEqual([PROVIDER_TEST]);
+  });
+
+  it("should accept an empty config", () => {
+    expect(parseExperiments("[]")).toEqual([]);
+  });
+
+  it("should reject malformed experiments", () => {
+    expect(() => parseExperiments("{}")).toThrow("JSON array");
+    expect(() => parseExperiments(JSON.stringify([{ ...PROVIDER_TEST, arms: [] }]))).toThrow("must have arms");
+    expect(() => parseExperiments(JSON.stringify([{ ...PROVIDER_TEST, functions: [] }]))).toThrow("functions");
+    expect(() =>
+      parseExperiments(JSON.stringify([{ ...PROVIDER_TEST, arms: [{ name: "a", weight: 1, provider: "x" }] }]))
+    ).toThrow("unknown provider");
+    expect(() =>
+      parseExperiments(JSON.stringify([{ ...PROVIDER_TEST, arms: [{ name: "a", weight: 0 }] }]))
+    ).toThrow("no traffic");
+  });
+});
+
+describe("assignArm", () => {
+  it("should be deterministic per device", () => {
+    expect(bucketPosition("exp", "fid:abc")).toBe(bucketPosition("exp", "fid:abc"));
+    expect(assignArm(PROVIDER_TEST, "fid:abc")).toBe(assignArm(PROVIDER_TEST, "fid:abc"));
+  });
+
+  it("should bucket independently per experiment", () => {
+    expect(bucketPosition("exp-a", "fid:abc")).not.toBe(bucketPosition("exp-b", "fid:abc"));
+  });
+
+  it("should follow the configured traffic split", () => {
+    let openai = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (assignArm(PROVIDER_TEST, `fid:device-${i}`).name === "openai") openai++;
+    }
+    expect(openai / 2000).toBeGreaterThan(0.16);
+    expect(openai / 2000).toBeLessThan(0.24);
+  });
+
+  it("should never assign a zero-weight arm", () => {
+    const experiment = { ...PROVIDER_TEST, arms: [{ name: "off", weight: 0 }, { name: "on", weight: 1 }] };
+    for (let i = 0; i < 100; i++) {
+      expect(assignArm(experiment, `fid:device-${i}`).name).toBe("on");
+    }
+  });
+});
+
+describe("resolveAssignment", () => {
+  it("should only assign for targeted functions", () => {
+    expect(resolveAssignment([PROVIDER_TEST], "generateReviewGemini", "fid:abc")).toBeNull();
+    expect(resolveAssignment([PROVIDER_TEST], "identifyAlbumGemini", "fid:abc")?.experimentId)
+      .toBe("id-provider");
+  });
+
+  it("should skip disabled experiments", () => {
+    expect(resolveAssignment([{ ...PROVIDER_TEST, enabled: false }], "identifyAlbumGemini", "fid:abc"))
+      .toBeNull();
+  });
+
+  it("should not assign shared identities", () => {
+    expect(resolveAssignment([PROVIDER_TEST], "identifyAlbumGemini", "app:1:123:ios:abc")).toBeNull();
+    expect(resolveAssignment([PROVIDER_TEST], "identifyAlbumGemini", "unknown-device")).toBeNull();
+  });
+});
+
+describe("applySearchPolicy", () => {
+  it("should override the default only for explicit policies", () => {
+    expect(applySearchPolicy(true, undefined)).toBe(true);
+    expect(applySearchPolicy(true, "default")).toBe(true);
+    expect(applySearchPolicy(true, "never")).toBe(false);
+    expect(applySearchPolicy(false, "always")).toBe(true);
+  });
+});
+
+describe("isDefaultArm", () => {
+  it("should be true only for arms without overrides", () => {
+    expect(isDefaultArm({ name: "control", weight: 50 })).toBe(true);
+    expect(isDefaultArm({ name: "control", weight: 50, searchPolicy: "default" })).toBe(true);
+    expect(isDefaultArm({ name: "openai", weight: 50, provider: "openai" })).toBe(false);
+    expect(isDefaultArm({ name: "v2", weight: 50, promptVersion: "v2" })).toBe(false);
+    expect(isDefaultArm({ name: "search", weight: 50, searchPolicy: "always" })).toBe(false);
+  });
+});
+
+describe("aggregateOutcomes", () => {
+  it("should compute per-arm rates, latency percentiles and token averages", () => {
+    const metrics = aggregateOutcomes([
+      outcome({ latencyMs: 1000 }),
+      outcome({ latencyMs: 2000, jsonValid: false, finishReason: "MAX_TOKENS", outputTokens: 150 }),
+      outcome({ latencyMs: 3000, jsonValid: false, finishReason: "ERROR", inputTokens: 0, outputTokens: 0 }),
+      outcome({ latencyMs: 4000, retries: 1, retryReasons: ["parse-error"] }),
+      outcome({ arm: "openai", provider: "openai", latencyMs: 500 }),
+    ]);
+
+    expect(metrics.map((row) => row.arm)).toEqual(["gemini", "openai"]);
+    expect(metrics[0]).toEqual({
+      experimentId: "id-provider",
+      functionName: "identifyAlbumGemini",
+      arm: "gemini",
+      calls: 4,
+      validJsonRate: 0.5,
+      errorRate: 0.25,
+      maxTokensRate: 0.25,
+      retryRate: 0.25,
+      latencyP50Ms: 2000,
+      latencyP95Ms: 4000,
+      avgInputTokens: 75,
+      avgOutputTokens: 62.5,
+    });
+    expect(metrics[1].calls).toBe(1);
+  });
+
+  it("should render a markdown table row per arm", () => {
+    const table = formatMetricsTable(aggregateOutcomes([outcome({}), outcome({ arm: "openai" })]));
+    const lines = table.split("\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toContain("| identifyAlbumGemini | gemini | 1 | 100.0% |");
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit Tests for Provider Failover
+ *
+ * Tests circuit breaker transitions, primary/secondary failover behavior,
+ * and cancelling timed out attempts within the deadline.
+ */
+
+import {
+  CircuitBreaker,
+  CircuitBreakers,
+  FailoverProvider,
+  GenerationRequest,
+  GenerationResult,
+  LLMProvider,
+  ProviderError,
+  ProviderName,
+} from "../providers";
+
+const REQUEST: GenerationRequest = { prompt: "p", maxOutputTokens: 10 };
+
+function fakeProvider(
+  name: ProviderName,
+  behavior: () => Promise<Partial<GenerationResult>>
+): LLMProvider & { calls: number } {
+  const provider = {
+    name,
+    calls: 0,
+    async generate(): Promise<GenerationResult> {
+      provider.calls++;
+      const partial = await behavior();
+      return {
+        provider: name,
+        model: `${name}-model`,
+        text: "{}",
+        finishReason: "STOP",
+        usage: null,
+        grounding: null,
+        ...partial,
+      };
+    },
+  };
+  return provider;
+}
+
+const ok = () => Promise.resolve({});
+const overloaded = (name: ProviderName) => () =>
+  Promise.reject(new ProviderError("overloaded", name, 503, true));
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000, now: () => now });
+  });
+
+  it("should open after consecutive failures", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it("should reset the count on success", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should allow a single probe after the cooldown", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now += 1000;
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it("should close after a successful probe and re-open after a failed one", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now += 1000;
+    breaker.allowRequest();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+
+    now += 1000;
+    breaker.allowRequest();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+  });
+});
+
+describe("FailoverProvider", () => {
+  it("should use the primary when it succeeds", async () => {
+    const primary = fakeProvider("gemini", ok);
+    const secondary = fakeProvider("openai", ok);
+    const result = await new FailoverProvider(primary, secondary, new CircuitBreakers()).generate(REQUEST);
+
+    expect(result.provider).toBe("gemini");
+    expect(result.failoverFrom).toBeUndefined();
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("should fail over on retryable errors and mark the result", async () => {
+    const primary = fakeProvider("gemini", overloaded("gemini"));
+    const secondary = fakeProvider("openai", ok);
+    const result = await new FailoverProvider(primary, secondary, new CircuitBreakers()).generate(REQUEST);
+
+    expect(result.provider).toBe("openai");
+    expect(result.failoverFrom).toBe("gemini");
+  });
+
+  it("should fail over when the primary times out", async () => {
+    const primary = fakeProvider("gemini", () => new Promise(() => undefined));
+    const secondary = fakeProvider("openai", ok);
+    const result = await new FailoverProvider(primary, secondary, new CircuitBreakers(), { timeoutMs: 10 })
+      .generate(REQUEST);
+
+    expect(result.provider).toBe("openai");
+  });
+
+  it("should abort a timed out primary and drop the text it streams afterwards", async () => {
+    let signal: AbortSignal | undefined;
+    const primary: LLMProvider = {
+      name: "gemini",
+      generate(request) {
+        signal = request.signal;
+        return new Promise((_, reject) => {
+          request.signal?.addEventListener("abort", () => {
+            request.onText?.("late");
+            reject(new ProviderError("aborted", "gemini", null, true));
+          });
+        });
+      },
+    };
+    const secondary = fakeProvider("openai", ok);
+    const deltas: string[] = [];
+
+    const result = await new FailoverProvider(primary, secondary, new CircuitBreakers(), { timeoutMs: 10 })
+      .generate({ ...REQUEST, onText: (delta) => deltas.push(delta) });
+
+    expect(signal?.aborted).toBe(true);
+    expect(deltas).toEqual([]);
+    expect(result.provider).toBe("openai");
+  });
+
+  it("should split the remaining deadline between attempts", async () => {
+    const hang = () => new Promise<Partial<GenerationResult>>(() => undefined);
+    const primary = fakeProvider("gemini", hang);
+    const secondary = fakeProvider("openai", hang);
+    const startedAt = Date.now();
+
+    await expect(new FailoverProvider(primary, secondary, new CircuitBreakers(), {
+      timeoutMs: 5000,
+      deadline: startedAt + 100,
+    }).generate(REQUEST)).rejects.toThrow("timed out");
+    expect(secondary.calls).toBe(1);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it("should not start an attempt past the deadline", async () => {
+    const primary = fakeProvider("gemini", ok);
+    const provider = new FailoverProvider(primary, null, new CircuitBreakers(), { deadline: 1000, now: () => 1000 });
+
+    await expect(provider.generate(REQUEST)).rejects.toThrow("deadline reached");
+    expect(primary.calls).toBe(0);
+  });
+
+  it("should not fail over on non-retryable errors", async () => {
+    const primary = fakeProvider("gemini", () =>
+      Promise.reject(new ProviderError("bad request", "gemini", 400, false)));
+    const secondary = fakeProvider("openai", ok);
+
+    await expect(new FailoverProvider(primary, secondary, new CircuitBreakers()).generate(REQUEST))
+      .rejects.toThrow("bad request");
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("should not fail over once text has been streamed", async () => {
+    const primary: LLMProvider = {
+      name: "gemini",
+      async generate(request) {
+        request.onText?.("{\"context_summary\"");
+        throw new ProviderError("overloaded", "gemini", 503, true);
+      },
+    };
+    const secondary = fakeProvider("openai", ok);
+
+    await expect(new FailoverProvider(primary, secondary, new CircuitBreakers())
+      .generate({ ...REQUEST, onText: () => undefined }))
+      .rejects.toThrow("overloaded");
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("should rethrow the last error when every provider fails", async () => {
+    const primary = fakeProvider("gemini", overloaded("gemini"));
+    const secondary = fakeProvider("openai", overloaded("openai"));
+
+    const error = await new FailoverProvider(primary, secondary, new CircuitBreakers())
+      .generate(REQUEST)
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.provider).toBe("openai");
+  });
+
+  it("should skip a provider whose circuit is open", async () => {
+    const breakers = new CircuitBreakers({ failureThreshold: 2 });
+    const primary = fakeProvider("gemini", overloaded("gemini"));
+    const secondary = fakeProvider("openai", ok);
+    const failover = new FailoverProvider(primary, secondary, breakers);
+
+    await failover.generate(REQUEST);
+    await failover.generate(REQUEST);
+    expect(breakers.for("gemini").state).toBe("open");
+
+    const result = await failover.generate(REQUEST);
+    expect(primary.calls).toBe(2);
+    expect(result.provider).toBe("openai");
+  });
+
+  it("should fail fast when the only provider's circuit is open", async () => {
+    const breakers = new CircuitBreakers({ failureThreshold: 1 });
+    const primary = fakeProvider("gemini", overloaded("gemini"));
+    const failover = new FailoverProvider(primary, null, breakers);
+
+    await expect(failover.generate(REQUEST)).rejects.toThrow("overloaded");
+    await expect(failover.generate(REQUEST)).rejects.toThrow("circuit open");
+    expect(primary.calls).toBe(1);
+  });
+});
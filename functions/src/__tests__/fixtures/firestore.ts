@@ -0,0 +1,297 @@
+/**
+ * Firestore for Store Tests
+ *
+ * `describeFirestore` runs a store's suite twice: against an in-memory
+ * Firestore, so the store logic is covered on every `npm test`, and against
+ * the Firestore emulator when FIRESTORE_EMULATOR_HOST is set
+ * (`npm run test:emulator`).
+ *
+ * The in-memory Firestore implements only what the stores use: document
+ * get/set (with merge and FieldValue.increment), collection add, queries with
+ * where/orderBy/limit, batches, and transactions. Transactions run one at a
+ * time, standing in for Firestore's retry on contention.
+ */
+
+import { initializeApp, deleteApp, App } from "firebase-admin/app";
+import { getFirestore, FieldValue, Firestore, Timestamp } from "firebase-admin/firestore";
+
+type Data = Record<string, unknown>;
+type Operator = "==" | "<" | "<=" | ">" | ">=" | "array-contains" | "array-contains-any" | "in";
+
+interface Filter {
+  field: string;
+  op: Operator;
+  value: unknown;
+}
+
+interface Write {
+  path: string;
+  data: Data;
+  merge: boolean;
+}
+
+const IncrementTransform = FieldValue.increment(0).constructor;
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/** Copies stored values so callers never share them, converting Dates to Timestamps as Firestore does */
+function clone(value: unknown): unknown {
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map(clone);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, clone(entry)]));
+  }
+  return value;
+}
+
+/** Applies `update` onto `base`: increments add to the current number, maps merge when `merge` is set */
+function applyFields(base: Data, update: Data, merge: boolean): Data {
+  const result: Data = { ...base };
+  for (const [key, value] of Object.entries(update)) {
+    if (value instanceof IncrementTransform) {
+      const current = result[key];
+      result[key] = (typeof current === "number" ? current : 0) + (value as unknown as { operand: number }).operand;
+    } else if (isPlainObject(value)) {
+      const current = result[key];
+      result[key] = applyFields(merge && isPlainObject(current) ? current : {}, value, merge);
+    } else {
+      result[key] = clone(value);
+    }
+  }
+  return result;
+}
+
+function fieldValue(data: Data, field: string): unknown {
+  return field.split(".").reduce<unknown>((value, part) => isPlainObject(value) ? value[part] : undefined, data);
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Timestamp ? value.toMillis() : value;
+}
+
+function matches(data: Data, { field, op, value }: Filter): boolean {
+  const actual = comparable(fieldValue(data, field));
+  const expected = comparable(value);
+  switch (op) {
+  case "==":
+    return actual === expected;
+  case "<":
+    return actual !== undefined && (actual as number) < (expected as number);
+  case "<=":
+    return actual !== undefined && (actual as number) <= (expected as number);
+  case ">":
+    return actual !== undefined && (actual as number) > (expected as number);
+  case ">=":
+    return actual !== undefined && (actual as number) >= (expected as number);
+  case "array-contains":
+    return Array.isArray(actual) && actual.includes(expected);
+  case "array-contains-any":
+    return Array.isArray(actual) && (expected as unknown[]).some((entry) => actual.includes(entry));
+  case "in":
+    return (expected as unknown[]).includes(actual);
+  }
+}
+
+class InMemorySnapshot {
+  constructor(readonly id: string, private readonly stored: Data | undefined) {}
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : clone(this.stored) as Data;
+  }
+
+  get(field: string): unknown {
+    return this.stored === undefined ? undefined : clone(fieldValue(this.stored, field));
+  }
+}
+
+class InMemoryDocument {
+  constructor(private readonly store: InMemoryFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split("/").pop() as string;
+  }
+
+  collection(name: string): InMemoryQuery {
+    return new InMemoryQuery(this.store, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<InMemorySnapshot> {
+    return this.store.read(this.path);
+  }
+
+  async set(data: Data, options: { merge?: boolean } = {}): Promise<void> {
+    this.store.commit([{ path: this.path, data, merge: options.merge === true }]);
+  }
+}
+
+class InMemoryQuery {
+  constructor(
+    private readonly store: InMemoryFirestore,
+    readonly path: string,
+    private readonly filters: Filter[] = [],
+    private readonly order: { field: string; direction: "asc" | "desc" } | null = null,
+    private readonly max: number | null = null
+  ) {}
+
+  doc(id: string = autoId()): InMemoryDocument {
+    return new InMemoryDocument(this.store, `${this.path}/${id}`);
+  }
+
+  async add(data: Data): Promise<InMemoryDocument> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+
+  where(field: string, op: Operator, value: unknown): InMemoryQuery {
+    return new InMemoryQuery(this.store, this.path, [...this.filters, { field, op, value }], this.order, this.max);
+  }
+
+  orderBy(field: string, direction: "asc" | "desc" = "asc"): InMemoryQuery {
+    return new InMemoryQuery(this.store, this.path, this.filters, { field, direction }, this.max);
+  }
+
+  limit(max: number): InMemoryQuery {
+    return new InMemoryQuery(this.store, this.path, this.filters, this.order, max);
+  }
+
+  async get(): Promise<{ docs: InMemorySnapshot[]; size: number; empty: boolean }> {
+    let docs = this.store.list(this.path).filter((doc) => this.filters.every((filter) => matches(doc.data, filter)));
+    if (this.order) {
+      const { field, direction } = this.order;
+      docs = docs.filter((doc) => fieldValue(doc.data, field) !== undefined).sort((a, b) => {
+        const left = comparable(fieldValue(a.data, field)) as number;
+        const right = comparable(fieldValue(b.data, field)) as number;
+        const order = left < right ? -1 : left > right ? 1 : 0;
+        return direction === "asc" ? order : -order;
+      });
+    }
+    const snapshots = docs.slice(0, this.max ?? undefined).map((doc) => new InMemorySnapshot(doc.id, doc.data));
+    return { docs: snapshots, size: snapshots.length, empty: snapshots.length === 0 };
+  }
+}
+
+class InMemoryBatch {
+  private readonly writes: Write[] = [];
+
+  constructor(private readonly store: InMemoryFirestore) {}
+
+  set(ref: InMemoryDocument, data: Data, options: { merge?: boolean } = {}): this {
+    this.writes.push({ path: ref.path, data, merge: options.merge === true });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.store.commit(this.writes);
+  }
+}
+
+class InMemoryTransaction extends InMemoryBatch {
+  constructor(private readonly source: InMemoryFirestore) {
+    super(source);
+  }
+
+  async get(ref: InMemoryDocument): Promise<InMemorySnapshot> {
+    return this.source.read(ref.path);
+  }
+}
+
+let nextId = 0;
+
+function autoId(): string {
+  nextId += 1;
+  return `auto${nextId.toString().padStart(8, "0")}`;
+}
+
+/**
+ * In-memory stand-in for the Firestore client. Cast it to `Firestore` when
+ * passing it to a store.
+ */
+export class InMemoryFirestore {
+  private readonly documents = new Map<string, Data>();
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  /** Writes to paths this returns true for fail, and fail their whole batch */
+  failWrites: (path: string) => boolean = () => false;
+
+  collection(name: string): InMemoryQuery {
+    return new InMemoryQuery(this, name);
+  }
+
+  batch(): InMemoryBatch {
+    return new InMemoryBatch(this);
+  }
+
+  runTransaction<T>(update: (transaction: InMemoryTransaction) => Promise<T>): Promise<T> {
+    const run = this.transactions.then(async () => {
+      const transaction = new InMemoryTransaction(this);
+      const result = await update(transaction);
+      await transaction.commit();
+      return result;
+    });
+    this.transactions = run.catch(() => undefined);
+    return run;
+  }
+
+  read(path: string): InMemorySnapshot {
+    return new InMemorySnapshot(path.split("/").pop() as string, this.documents.get(path));
+  }
+
+  /** Documents directly in a collection */
+  list(collectionPath: string): Array<{ id: string; data: Data }> {
+    const depth = collectionPath.split("/").length + 1;
+    return [...this.documents.entries()]
+      .filter(([path]) => path.startsWith(`${collectionPath}/`) && path.split("/").length === depth)
+      .map(([path, data]) => ({ id: path.split("/").pop() as string, data }));
+  }
+
+  commit(writes: Write[]): void {
+    const failed = writes.find((write) => this.failWrites(write.path));
+    if (failed) throw new Error(`Write to ${failed.path} failed`);
+    for (const { path, data, merge } of writes) {
+      this.documents.set(path, applyFields(merge ? this.documents.get(path) ?? {} : {}, data, merge));
+    }
+  }
+}
+
+/**
+ * Defines `name` against the in-memory Firestore, and again against the
+ * emulator when it is running. `suite` gets the current database through
+ * `db()`; the in-memory one is fresh for each test, so suites that also run
+ * on the emulator should still use unique collection names or document IDs.
+ */
+export function describeFirestore(name: string, suite: (db: () => Firestore) => void): void {
+  describe(`${name} (in-memory)`, () => {
+    let db: InMemoryFirestore;
+
+    beforeEach(() => {
+      db = new InMemoryFirestore();
+    });
+
+    suite(() => db as unknown as Firestore);
+  });
+
+  const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+  describeWithEmulator(`${name} (emulator)`, () => {
+    let app: App;
+    let db: Firestore;
+
+    beforeAll(() => {
+      app = initializeApp({ projectId: "demo-albumscan" }, `${name}-test`);
+      db = getFirestore(app);
+    });
+
+    afterAll(async () => {
+      await deleteApp(app);
+    });
+
+    suite(() => db);
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Local MusicBrainz Stand-in
+ *
+ * An HTTP server answering MusicBrainz (/ws/2) and Cover Art Archive (/caa)
+ * paths with canned JSON, so the real client can be tested end to end
+ * without reaching musicbrainz.org.
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { MusicBrainzClient, RequestThrottle } from "../../utils/musicbrainz";
+
+export interface StandInResponse {
+  status?: number;
+  body?: unknown;
+}
+
+/** A canned response, or one computed from the request URL (e.g. by search query) */
+export type StandInRoute = StandInResponse | ((url: URL) => StandInResponse);
+
+export interface StandIn {
+  baseUrl: string;
+  requests: Array<{ path: string; userAgent?: string }>;
+  /** Client pointed at this stand-in, without throttling */
+  client(): MusicBrainzClient;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a stand-in on a free local port. Unknown paths return 404.
+ */
+export async function startMusicBrainzStandIn(routes: Record<string, StandInRoute>): Promise<StandIn> {
+  const requests: StandIn["requests"] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push({ path: url.pathname + url.search, userAgent: req.headers["user-agent"] });
+    const route = routes[url.pathname];
+    const response = typeof route === "function" ? route(url) : route;
+    res.statusCode = response?.status ?? (response ? 200 : 404);
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(response?.body ?? {}));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  return {
+    baseUrl,
+    requests,
+    client: () => new MusicBrainzClient({
+      baseUrl: `${baseUrl}/ws/2`,
+      coverArtBaseUrl: `${baseUrl}/caa`,
+      throttle: new RequestThrottle(0),
+    }),
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
@@ -7,13 +7,17 @@
 import {
   stripMarkdownFences,
   validateAndNormalizeJson,
-  validateReviewFields,
   extractUniqueSources,
   injectCitationsIntoBullets,
   extractTextFromGeminiResponse,
   toOpenAIFormat,
   GroundingChunk,
+  GroundingSupport,
+  CitedSource,
+  MAX_CITATIONS_PER_BULLET,
+  citedChunkIndices,
 } from "../utils/gemini-helpers";
+import { REVIEW_SCHEMA, ReviewResponse, assertSchema } from "../schemas";
 
 describe("stripMarkdownFences", () => {
   it("should remove ```json prefix and ``` suffix", () => {
@@ -101,70 +105,6 @@ describe("validateAndNormalizeJson", () => {
   });
 });
 
-describe("validateReviewFields", () => {
-  const validReview = {
-    context_summary: "Great album",
-    context_bullets: ["Point 1", "Point 2"],
-    rating: 8.5,
-    recommendation: "Must listen",
-    key_tracks: ["Track 1", "Track 2"],
-  };
-
-  it("should return true for valid review", () => {
-    expect(validateReviewFields(validReview)).toBe(true);
-  });
-
-  it("should throw when context_summary is missing", () => {
-    const invalid = { ...validReview, context_summary: undefined };
-    expect(() => validateReviewFields(invalid)).toThrow("Missing required fields");
-  });
-
-  it("should throw when context_bullets is missing", () => {
-    const invalid = { ...validReview, context_bullets: undefined };
-    expect(() => validateReviewFields(invalid)).toThrow("Missing required fields");
-  });
-
-  it("should throw when rating is missing", () => {
-    const invalid = { ...validReview, rating: undefined };
-    expect(() => validateReviewFields(invalid)).toThrow("Missing required fields");
-  });
-
-  it("should throw when recommendation is missing", () => {
-    const invalid = { ...validReview, recommendation: undefined };
-    expect(() => validateReviewFields(invalid)).toThrow("Missing required fields");
-  });
-
-  it("should throw when key_tracks is missing", () => {
-    const invalid = { ...validReview, key_tracks: undefined };
-    expect(() => validateReviewFields(invalid)).toThrow("Missing required fields");
-  });
-
-  it("should throw when context_bullets is not an array", () => {
-    const invalid = { ...validReview, context_bullets: "not an array" };
-    expect(() => validateReviewFields(invalid)).toThrow("context_bullets must be an array");
-  });
-
-  it("should throw when key_tracks is not an array", () => {
-    const invalid = { ...validReview, key_tracks: "not an array" };
-    expect(() => validateReviewFields(invalid)).toThrow("key_tracks must be an array");
-  });
-
-  it("should throw when rating is not a number", () => {
-    const invalid = { ...validReview, rating: "8.5" };
-    expect(() => validateReviewFields(invalid)).toThrow("rating must be a number");
-  });
-
-  it("should allow rating of 0", () => {
-    const zeroRating = { ...validReview, rating: 0 };
-    expect(validateReviewFields(zeroRating)).toBe(true);
-  });
-
-  it("should allow additional fields", () => {
-    const withExtra = { ...validReview, extra_field: "allowed" };
-    expect(validateReviewFields(withExtra)).toBe(true);
-  });
-});
-
 describe("extractUniqueSources", () => {
   const createChunk = (title: string, uri: string): GroundingChunk => ({
     web: { title, uri },
@@ -241,53 +181,94 @@ describe("extractUniqueSources", () => {
   });
 });
 
-describe("injectCitationsIntoBullets", () => {
-  const createSource = (title: string, uri: string): GroundingChunk => ({
-    web: { title, uri },
+describe("citedChunkIndices", () => {
+  const chunks: GroundingChunk[] = [
+    { web: { title: "pitchfork.com", uri: "https://vertexaisearch.test/pitchfork" } },
+    { web: { title: "rollingstone.com", uri: "https://vertexaisearch.test/rollingstone" } },
+    { web: { title: "theguardian.com", uri: "https://vertexaisearch.test/guardian" } },
+    { web: {} },
+  ];
+  const bullets = ["Recorded in a mansion", "Sold two million copies", "Named album of the decade"];
+  const text = JSON.stringify({ context_bullets: bullets });
+  const byteRange = (value: string) => {
+    const start = Buffer.byteLength(text.slice(0, text.indexOf(value)));
+    return { startIndex: start, endIndex: start + Buffer.byteLength(value) };
+  };
+
+  it("should attribute each support's sources to the bullets it covers", () => {
+    const supports: GroundingSupport[] = [
+      { segment: byteRange("Sold two million"), groundingChunkIndices: [1, 0] },
+      { segment: byteRange("Recorded in a mansion"), groundingChunkIndices: [2] },
+    ];
+
+    expect(citedChunkIndices(bullets, chunks, supports, text)).toEqual([[2], [1, 0], []]);
   });
 
-  it("should append citations to bullets", () => {
-    const bullets = ["Point 1", "Point 2"];
-    const sources = [
-      createSource("Source A", "https://a.com"),
-      createSource("Source B", "https://b.com"),
+  it("should cite nothing without supports", () => {
+    expect(citedChunkIndices(bullets, chunks, [], text)).toEqual([[], [], []]);
+  });
+
+  it("should measure offsets in UTF-8 bytes", () => {
+    const accented = ["Café recordings", "Björk guests"];
+    const accentedText = JSON.stringify({ context_bullets: accented });
+    const start = Buffer.byteLength(accentedText.slice(0, accentedText.indexOf("Björk")));
+    const supports: GroundingSupport[] = [
+      { segment: { startIndex: start, endIndex: start + 6 }, groundingChunkIndices: [0] },
     ];
-    const result = injectCitationsIntoBullets(bullets, sources);
 
-    expect(result[0]).toBe("Point 1 ([Source A](https://a.com))");
-    expect(result[1]).toBe("Point 2 ([Source B](https://b.com))");
+    expect(citedChunkIndices(accented, chunks, supports, accentedText)).toEqual([[], [0]]);
   });
 
-  it("should not modify bullets beyond available sources", () => {
-    const bullets = ["Point 1", "Point 2", "Point 3"];
-    const sources = [createSource("Source A", "https://a.com")];
-    const result = injectCitationsIntoBullets(bullets, sources);
+  it("should match by segment text when self-repair replaced the grounded text", () => {
+    const supports: GroundingSupport[] = [
+      { segment: { startIndex: 0, endIndex: 5, text: "named  album of the decade" }, groundingChunkIndices: [0] },
+    ];
 
-    expect(result[0]).toBe("Point 1 ([Source A](https://a.com))");
-    expect(result[1]).toBe("Point 2");
-    expect(result[2]).toBe("Point 3");
+    expect(citedChunkIndices(bullets, chunks, supports, "{\"truncated\": ")).toEqual([[], [], [0]]);
   });
 
-  it("should return copy of bullets when no sources", () => {
-    const bullets = ["Point 1", "Point 2"];
-    const result = injectCitationsIntoBullets(bullets, []);
+  it("should skip chunks without a URL and repeated chunks", () => {
+    const supports: GroundingSupport[] = [
+      { segment: byteRange("Recorded"), groundingChunkIndices: [3, 0, 0, 9] },
+    ];
 
-    expect(result).toEqual(bullets);
-    expect(result).not.toBe(bullets); // Should be a new array
+    expect(citedChunkIndices(bullets, chunks, supports, text)[0]).toEqual([0]);
   });
+});
 
-  it("should handle empty bullets array", () => {
-    const sources = [createSource("Source A", "https://a.com")];
-    const result = injectCitationsIntoBullets([], sources);
-    expect(result).toEqual([]);
+describe("injectCitationsIntoBullets", () => {
+  const createSource = (outlet: string, url: string, citedByBullets: number[]): CitedSource => ({
+    outlet,
+    url,
+    citedByBullets,
   });
 
-  it("should handle missing web properties gracefully", () => {
-    const bullets = ["Point 1"];
-    const sources: GroundingChunk[] = [{ web: {} }];
+  it("should append the citing sources to each bullet", () => {
+    const bullets = ["Point 1", "Point 2"];
+    const sources = [
+      createSource("Rolling Stone", "https://b.com", [1]),
+      createSource("Pitchfork", "https://a.com", [0, 1]),
+    ];
     const result = injectCitationsIntoBullets(bullets, sources);
 
-    expect(result[0]).toBe("Point 1 ([source]())");
+    expect(result[0]).toBe("Point 1 ([Pitchfork](https://a.com))");
+    expect(result[1]).toBe("Point 2 ([Rolling Stone](https://b.com), [Pitchfork](https://a.com))");
+  });
+
+  it("should leave uncited bullets unchanged", () => {
+    const bullets = ["Point 1", "Point 2"];
+    const result = injectCitationsIntoBullets(bullets, [createSource("Pitchfork", "https://a.com", [1])]);
+
+    expect(result[0]).toBe("Point 1");
+    expect(injectCitationsIntoBullets(bullets, [])).toEqual(bullets);
+  });
+
+  it("should cap citations per bullet in source order", () => {
+    const sources = ["A", "B", "C"].map((outlet) => createSource(outlet, `https://${outlet}.com`, [0]));
+    const result = injectCitationsIntoBullets(["Point 1"], sources);
+
+    expect(result[0].match(/\]\(/g)).toHaveLength(MAX_CITATIONS_PER_BULLET);
+    expect(result[0]).not.toContain("[C]");
   });
 });
 
@@ -405,10 +386,11 @@ describe("Integration: Full transformation pipeline", () => {
   "context_summary": "A landmark album that defined a generation",
   "context_bullets": [
     "Revolutionary production techniques",
-    "Genre-defying sound"
+    "Genre-defying sound",
+    "Influenced a generation of bands"
   ],
   "rating": 9.5,
-  "recommendation": "Essential listening",
+  "recommendation": "Essential Classic",
   "key_tracks": ["Track 1", "Track 2"]
 }
 \`\`\``;
@@ -424,19 +406,27 @@ describe("Integration: Full transformation pipeline", () => {
 
     // Step 2: Validate and normalize JSON
     const normalized = validateAndNormalizeJson(stripped);
-    const parsed = JSON.parse(normalized);
 
-    // Step 3: Validate review fields
-    expect(validateReviewFields(parsed)).toBe(true);
+    // Step 3: Validate against the shared review schema
+    const parsed = assertSchema<ReviewResponse>(REVIEW_SCHEMA, JSON.parse(normalized), "review response");
 
     // Step 4: Extract unique sources
     const sources = extractUniqueSources(groundingChunks);
     expect(sources).toHaveLength(2);
 
-    // Step 5: Inject citations
+    // Step 5: Inject citations where grounding supports cover a bullet
+    const supports: GroundingSupport[] = [
+      { segment: { text: "Revolutionary production techniques" }, groundingChunkIndices: [0] },
+      { segment: { text: "Genre-defying sound" }, groundingChunkIndices: [1] },
+    ];
+    const citations = citedChunkIndices(parsed.context_bullets, sources, supports, rawResponse);
     const bulletsWithCitations = injectCitationsIntoBullets(
       parsed.context_bullets,
-      sources
+      sources.map((source, index) => ({
+        outlet: source.web?.title ?? "",
+        url: source.web?.uri ?? "",
+        citedByBullets: citations.flatMap((cited, bullet) => cited.includes(index) ? [bullet] : []),
+      }))
     );
     expect(bulletsWithCitations[0]).toContain("[Pitchfork]");
     expect(bulletsWithCitations[1]).toContain("[Rolling Stone]");
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for the Identification Cache
+ *
+ * Matching rules are tested directly. The Firestore-backed cache runs against
+ * an in-memory Firestore, and also against the emulator when
+ * FIRESTORE_EMULATOR_HOST is set (see `npm run test:emulator`).
+ */
+
+import {
+  closestMatch,
+  promptScope,
+  IdentificationCache,
+  IDENTIFICATION_CACHE_TTL_MS,
+} from "../utils/identification-cache";
+import { describeFirestore } from "./fixtures/firestore";
+
+describe("closestMatch", () => {
+  const candidates = [
+    { hash: "00000000000000ff", id: "far" },
+    { hash: "0000000000000003", id: "near" },
+    { hash: "0000000000000001", id: "nearest" },
+  ];
+
+  it("should return the closest candidate within the threshold", () => {
+    const match = closestMatch("0000000000000000", candidates, 5);
+    expect(match?.candidate.id).toBe("nearest");
+    expect(match?.distance).toBe(1);
+  });
+
+  it("should return null when nothing is close enough", () => {
+    expect(closestMatch("ffffffffffffffff", candidates, 5)).toBeNull();
+  });
+
+  it("should treat a threshold of 0 as exact match only", () => {
+    expect(closestMatch("0000000000000000", candidates, 0)).toBeNull();
+    expect(closestMatch("0000000000000001", candidates, 0)?.candidate.id).toBe("nearest");
+  });
+});
+
+describe("promptScope", () => {
+  it("should be stable per prompt and differ between prompts", () => {
+    expect(promptScope("prompt A")).toBe(promptScope("prompt A"));
+    expect(promptScope("prompt A")).not.toBe(promptScope("prompt B"));
+    expect(promptScope("prompt A")).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describeFirestore("IdentificationCache", (db) => {
+  const NIRVANA = JSON.stringify({ success: true, artistName: "Nirvana" });
+  const OTHER = JSON.stringify({ success: true, artistName: "Other" });
+
+  let now: number;
+  let cache: IdentificationCache;
+
+  beforeEach(() => {
+    now = Date.now();
+    cache = new IdentificationCache(db(), { collection: `identificationCache-${now}`, now: () => now });
+  });
+
+  it("should find a near-duplicate image", async () => {
+    await cache.store("a1b2c3d4e5f60718", "scope", NIRVANA, "gemini");
+    const hit = await cache.find("a1b2c3d4e5f60719", "scope", 5);
+    expect(hit).toEqual({ content: NIRVANA, distance: 1, provider: "gemini" });
+  });
+
+  it("should find a near-duplicate among more colliding entries than one band query returns", async () => {
+    // 60 unrelated covers share the first band with the scan
+    for (let i = 0; i < 60; i++) {
+      const suffix = (0xffffffffffff - i).toString(16).padStart(12, "0");
+      await cache.store(`a1b2${suffix}`, "scope", OTHER, "gemini");
+    }
+    // Differs by 2 bits, both in the first band
+    await cache.store("a1b1c3d4e5f60718", "scope", NIRVANA, "gemini");
+
+    const hit = await cache.find("a1b2c3d4e5f60718", "scope", 5);
+    expect(hit).toEqual({ content: NIRVANA, distance: 2, provider: "gemini" });
+  });
+
+  it("should not store failed identifications", async () => {
+    await cache.store("a1b2c3d4e5f60718", "scope", JSON.stringify({ success: false, errorMessage: "Unreadable" }), "gemini");
+    await cache.store("a1b2c3d4e5f60719", "scope", "not json", "gemini");
+    expect(await cache.find("a1b2c3d4e5f60718", "scope", 5)).toBeNull();
+  });
+
+  it("should not match across prompt scopes", async () => {
+    await cache.store("a1b2c3d4e5f60718", "scope-a", NIRVANA, "gemini");
+    expect(await cache.find("a1b2c3d4e5f60718", "scope-b", 5)).toBeNull();
+  });
+
+  it("should ignore expired entries", async () => {
+    await cache.store("a1b2c3d4e5f60718", "scope", NIRVANA, "gemini");
+    now += IDENTIFICATION_CACHE_TTL_MS;
+    expect(await cache.find("a1b2c3d4e5f60718", "scope", 5)).toBeNull();
+  });
+});
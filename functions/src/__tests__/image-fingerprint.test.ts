@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for Image Fingerprinting
+ *
+ * Synthetic JPEGs stand in for cover photos: a re-encoded or slightly noisy
+ * copy of an image should hash close to the original, a different image far.
+ */
+
+import * as jpeg from "jpeg-js";
+import {
+  fingerprintImage,
+  differenceHash,
+  hammingDistance,
+  fingerprintBands,
+  fingerprintBandProbes,
+  downsample,
+} from "../utils/image-fingerprint";
+
+type PixelFn = (x: number, y: number) => number;
+
+function makeJpeg(width: number, height: number, pixel: PixelFn, quality = 90): string {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.max(0, Math.min(255, Math.round(pixel(x, y))));
+      const i = (y * width + x) * 4;
+      data[i] = value;
+      data[i + 1] = value;
+      data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return jpeg.encode({ width, height, data }, quality).data.toString("base64");
+}
+
+// A "cover" with an uneven pattern so every gradient bit is meaningful
+const cover: PixelFn = (x, y) => 128 + 100 * Math.sin(x / 17) * Math.cos(y / 23);
+const otherCover: PixelFn = (x, y) => 128 + 100 * Math.cos(x / 9 + y / 31);
+
+describe("fingerprintImage", () => {
+  it("should return 16 hex characters", () => {
+    expect(fingerprintImage(makeJpeg(180, 160, cover))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("should hash re-encoded and noisy copies near the original", () => {
+    const original = fingerprintImage(makeJpeg(180, 160, cover, 90));
+    const recompressed = fingerprintImage(makeJpeg(180, 160, cover, 40));
+    const noisy = fingerprintImage(makeJpeg(180, 160, (x, y) => cover(x, y) + ((x * 7 + y * 13) % 9) - 4));
+    expect(hammingDistance(original, recompressed)).toBeLessThanOrEqual(5);
+    expect(hammingDistance(original, noisy)).toBeLessThanOrEqual(5);
+  });
+
+  it("should hash a resized copy near the original", () => {
+    const original = fingerprintImage(makeJpeg(360, 320, (x, y) => cover(x / 2, y / 2)));
+    const smaller = fingerprintImage(makeJpeg(180, 160, cover));
+    expect(hammingDistance(original, smaller)).toBeLessThanOrEqual(5);
+  });
+
+  it("should hash different images far apart", () => {
+    const a = fingerprintImage(makeJpeg(180, 160, cover));
+    const b = fingerprintImage(makeJpeg(180, 160, otherCover));
+    expect(hammingDistance(a, b)).toBeGreaterThan(10);
+  });
+
+  it("should throw on data that is not a JPEG", () => {
+    expect(() => fingerprintImage(Buffer.from("not an image").toString("base64"))).toThrow();
+  });
+});
+
+describe("differenceHash", () => {
+  it("should set a bit where the left pixel is brighter than the right", () => {
+    // Brightness falls left to right on every row: all 64 bits set
+    const width = 9;
+    const height = 8;
+    const pixels = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) pixels[y * width + x] = 255 - x * 20;
+    }
+    expect(differenceHash({ width, height, pixels })).toBe("ffffffffffffffff");
+  });
+});
+
+describe("downsample", () => {
+  it("should average blocks of pixels", () => {
+    const pixels = new Uint8Array([0, 100, 200, 100]);
+    expect(downsample({ width: 2, height: 2, pixels }, 1, 1)).toEqual([100]);
+    expect(downsample({ width: 2, height: 2, pixels }, 2, 1)).toEqual([100, 100]);
+  });
+});
+
+describe("hammingDistance", () => {
+  it("should count differing bits", () => {
+    expect(hammingDistance("0000", "0000")).toBe(0);
+    expect(hammingDistance("000f", "0000")).toBe(4);
+    expect(hammingDistance("ffff", "0000")).toBe(16);
+  });
+
+  it("should throw on length mismatch", () => {
+    expect(() => hammingDistance("00", "000")).toThrow("same length");
+  });
+});
+
+describe("fingerprintBands", () => {
+  it("should split a hash into four positional bands", () => {
+    expect(fingerprintBands("0011223344556677")).toEqual(["0:0011", "1:2233", "2:4455", "3:6677"]);
+  });
+});
+
+describe("fingerprintBandProbes", () => {
+  it("should probe each band and its one-bit neighbours", () => {
+    const probes = fingerprintBandProbes("0000ffff00000000");
+    expect(probes).toHaveLength(4);
+    expect(probes[0]).toHaveLength(17);
+    expect(probes[0]).toEqual(expect.arrayContaining(["0:0000", "0:0001", "0:8000"]));
+    expect(probes[1]).toEqual(expect.arrayContaining(["1:ffff", "1:fffe", "1:7fff"]));
+  });
+
+  it("should find a shared band for any two hashes within 7 bits", () => {
+    const a = "0000000000000000";
+    const b = "0003000300030001"; // 7 bits differ: 2 in each of bands 0-2, 1 in band 3
+    const bands = fingerprintBands(b);
+    const found = fingerprintBandProbes(a).some((probes) => probes.some((probe) => bands.includes(probe)));
+    expect(hammingDistance(a, b)).toBe(7);
+    expect(found).toBe(true);
+  });
+});
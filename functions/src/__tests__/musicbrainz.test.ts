@@ -0,0 +1,208 @@
+/**
+ * Unit Tests for MusicBrainz Enrichment
+ *
+ * Runs the client against a local HTTP stand-in for MusicBrainz and the
+ * Cover Art Archive, and tests the shared request throttle.
+ */
+
+import {
+  MusicBrainzClient,
+  MusicBrainzError,
+  MusicBrainzRelease,
+  RequestThrottle,
+  enrichIdentification,
+  selectRelease,
+} from "../utils/musicbrainz";
+import { StandIn, startMusicBrainzStandIn } from "./fixtures/musicbrainz-stand-in";
+
+const RELEASE_GROUP_ID = "rg-1";
+
+const RELEASES: MusicBrainzRelease[] = [
+  {
+    id: "release-bootleg",
+    score: 100,
+    title: "OK Computer",
+    status: "Bootleg",
+    "artist-credit": [{ name: "Radiohead" }],
+    "release-group": { id: "rg-bootleg" },
+  },
+  {
+    id: "release-1",
+    score: 98,
+    title: "OK Computer",
+    status: "Official",
+    date: "1997-06-16",
+    "artist-credit": [{ name: "Radiohead" }],
+    "release-group": { id: RELEASE_GROUP_ID, title: "OK Computer" },
+    "label-info": [{ "catalog-number": "NODATA 02", label: { id: "l-1", name: "Parlophone" } }],
+  },
+];
+
+describe("enrichIdentification", () => {
+  let standIn: StandIn | null = null;
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+  });
+
+  it("should return MBIDs, canonical names, date, label and cover art", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": { body: { releases: RELEASES } },
+      [`/ws/2/release-group/${RELEASE_GROUP_ID}`]: {
+        body: {
+          id: RELEASE_GROUP_ID,
+          title: "OK Computer",
+          "first-release-date": "1997-05-21",
+          "artist-credit": [{ name: "Radiohead" }],
+        },
+      },
+      [`/caa/release-group/${RELEASE_GROUP_ID}`]: {
+        body: { images: [{ front: false, image: "http://caa/back.jpg" }, { front: true, image: "http://caa/front.jpg" }] },
+      },
+    });
+
+    const enrichment = await enrichIdentification(standIn.client(), {
+      artistName: "radiohead",
+      albumTitle: "Ok Computer",
+    });
+
+    expect(enrichment).toEqual({
+      releaseGroupMbid: RELEASE_GROUP_ID,
+      releaseMbid: "release-1",
+      artistName: "Radiohead",
+      albumTitle: "OK Computer",
+      firstReleaseDate: "1997-05-21",
+      label: "Parlophone",
+      coverArtUrl: "https://caa/front.jpg",
+    });
+
+    const search = new URL(standIn.requests[0].path, standIn.baseUrl);
+    expect(search.searchParams.get("query")).toBe("artist:\"radiohead\" AND release:\"Ok Computer\"");
+    expect(search.searchParams.get("fmt")).toBe("json");
+    expect(standIn.requests[0].userAgent).toMatch(/^AlbumScan\//);
+  });
+
+  it("should fall back to the release's cover art", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": { body: { releases: [RELEASES[1]] } },
+      "/caa/release/release-1": { body: { images: [{ front: true, image: "https://caa/release.jpg" }] } },
+    });
+
+    const enrichment = await enrichIdentification(standIn.client(), {
+      artistName: "Radiohead",
+      albumTitle: "OK Computer",
+    });
+    expect(enrichment?.coverArtUrl).toBe("https://caa/release.jpg");
+    // Release group lookup 404s, so the release supplies names and date
+    expect(enrichment?.firstReleaseDate).toBe("1997-06-16");
+  });
+
+  it("should return null without a confident match", async () => {
+    standIn = await startMusicBrainzStandIn({
+      "/ws/2/release": { body: { releases: [{ ...RELEASES[1], score: 60 }] } },
+    });
+    expect(await enrichIdentification(standIn.client(), { artistName: "A", albumTitle: "B" })).toBeNull();
+    expect(standIn.requests).toHaveLength(1);
+  });
+
+  it("should throw MusicBrainzError when MusicBrainz errors", async () => {
+    standIn = await startMusicBrainzStandIn({ "/ws/2/release": { status: 503 } });
+    const error = await enrichIdentification(standIn.client(), { artistName: "A", albumTitle: "B" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(MusicBrainzError);
+    expect(error.status).toBe(503);
+  });
+
+  it("should throw MusicBrainzError and drop its queued requests when the lookup outlasts the timeout", async () => {
+    // The search waits for a slot until the test wakes the throttle
+    const wakeUps: Array<() => void> = [];
+    const throttle = new RequestThrottle(1000, { sleep: () => new Promise((resolve) => wakeUps.push(resolve)) });
+    await throttle.acquire();
+    const requested: string[] = [];
+    const client = new MusicBrainzClient({
+      baseUrl: "https://mb.test/ws/2",
+      throttle,
+      fetch: async (url) => {
+        requested.push(url);
+        return { ok: true, status: 200, json: async () => ({ releases: [] }) };
+      },
+    });
+
+    const error = await enrichIdentification(client, { artistName: "A", albumTitle: "B" }, { timeoutMs: 20 })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(MusicBrainzError);
+    expect(error.message).toMatch(/timed out/);
+
+    wakeUps[0]();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(requested).toEqual([]);
+  });
+});
+
+describe("selectRelease", () => {
+  it("should prefer an official exact match over a higher-scored hit", () => {
+    expect(selectRelease(RELEASES, "Radiohead", "OK Computer")?.id).toBe("release-1");
+  });
+
+  it("should fall back to the top confident hit", () => {
+    expect(selectRelease(RELEASES, "Radiohead", "Kid A")?.id).toBe("release-bootleg");
+    expect(selectRelease([], "A", "B")).toBeNull();
+  });
+});
+
+describe("RequestThrottle", () => {
+  it("should space queued requests one interval apart", async () => {
+    let now = 10_000;
+    const sleeps: number[] = [];
+    const throttle = new RequestThrottle(1000, {
+      now: () => now,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    await Promise.all([throttle.acquire(), throttle.acquire(), throttle.acquire()]);
+    expect(sleeps).toEqual([1000, 2000]);
+
+    now += 5000;
+    await throttle.acquire();
+    expect(sleeps).toEqual([1000, 2000]);
+  });
+
+  it("should refuse requests beyond the queue cap", async () => {
+    const sleeps: number[] = [];
+    const throttle = new RequestThrottle(1000, {
+      maxQueued: 2,
+      now: () => 10_000,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    const results = await Promise.allSettled([1, 2, 3, 4].map(() => throttle.acquire()));
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "fulfilled", "fulfilled", "rejected"]);
+    expect(sleeps).toEqual([1000, 2000]);
+  });
+
+  it("should drop aborted requests from the queue", async () => {
+    const wakeUps: Array<() => void> = [];
+    const throttle = new RequestThrottle(1000, {
+      maxQueued: 1,
+      now: () => 10_000,
+      sleep: () => new Promise((resolve) => wakeUps.push(resolve)),
+    });
+    await throttle.acquire();
+
+    const controller = new AbortController();
+    const abandoned = throttle.acquire(controller.signal).catch((e) => e);
+    controller.abort();
+    expect(await abandoned).toBeInstanceOf(MusicBrainzError);
+
+    // The abandoned request no longer counts against the cap, and never starts
+    const next = throttle.acquire();
+    wakeUps[0]();
+    await next;
+    expect(wakeUps).toHaveLength(1);
+  });
+});
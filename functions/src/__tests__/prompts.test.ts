@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for the Prompt Registry
+ *
+ * Tests version selection precedence, config parsing and the v1 message builders.
+ */
+
+import {
+  DEFAULT_PROMPT_VERSIONS,
+  PROMPT_REGISTRY,
+  PromptSelectionContext,
+  parsePromptAppPins,
+  parsePromptVersions,
+  selectPrompt,
+} from "../prompts";
+
+const NO_CONFIG: PromptSelectionContext = { active: {}, pins: {} };
+
+describe("selectPrompt", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should use the default version when nothing is configured", () => {
+    const selection = selectPrompt("review", NO_CONFIG);
+    expect(selection.version).toBe(DEFAULT_PROMPT_VERSIONS.review);
+    expect(selection.source).toBe("default");
+    expect(selection.template).toBe(PROMPT_REGISTRY.review.v1);
+  });
+
+  it("should prefer experiment over app pin over active config", () => {
+    const context: PromptSelectionContext = {
+      experimentVersion: "v1",
+      appId: "ios-app",
+      active: { review: "v1" },
+      pins: { "ios-app": { review: "v1" } },
+    };
+    expect(selectPrompt("review", context).source).toBe("experiment");
+    expect(selectPrompt("review", { ...context, experimentVersion: undefined }).source).toBe("app");
+    expect(selectPrompt("review", { ...context, experimentVersion: undefined, appId: "other" }).source)
+      .toBe("config");
+  });
+
+  it("should only apply pins for the named prompt", () => {
+    const context: PromptSelectionContext = { appId: "ios-app", active: {}, pins: { "ios-app": { review: "v1" } } };
+    expect(selectPrompt("identification", context).source).toBe("default");
+  });
+
+  it("should skip unknown versions and log them", () => {
+    const selection = selectPrompt("review", { experimentVersion: "v99", active: { review: "v1" }, pins: {} });
+    expect(selection.source).toBe("config");
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("\"v99\""));
+  });
+
+  it("should not resolve versions or app IDs to Object.prototype members", () => {
+    for (const version of ["constructor", "toString", "__proto__"]) {
+      const selection = selectPrompt("review", { experimentVersion: version, active: {}, pins: {} });
+      expect(selection.source).toBe("default");
+      expect(selection.version).toBe(DEFAULT_PROMPT_VERSIONS.review);
+    }
+    expect(selectPrompt("review", { appId: "constructor", active: {}, pins: {} }).source).toBe("default");
+  });
+});
+
+describe("parsePromptVersions", () => {
+  it("should accept an object of prompt names to versions", () => {
+    expect(parsePromptVersions("{\"review\": \"v2\"}")).toEqual({ review: "v2" });
+  });
+
+  it("should reject unknown prompts and non-string versions", () => {
+    expect(() => parsePromptVersions("{\"summary\": \"v1\"}")).toThrow("Unknown prompt");
+    expect(() => parsePromptVersions("{\"review\": 2}")).toThrow("must be a string");
+    expect(() => parsePromptVersions("[]")).toThrow("JSON object");
+    expect(() => parsePromptVersions("{\"constructor\": \"v1\"}")).toThrow("Unknown prompt");
+  });
+});
+
+describe("parsePromptAppPins", () => {
+  it("should validate each app's config", () => {
+    expect(parsePromptAppPins("{\"ios-app\": {\"review\": \"v1\"}}")).toEqual({ "ios-app": { review: "v1" } });
+    expect(() => parsePromptAppPins("{\"ios-app\": {\"bogus\": \"v1\"}}")).toThrow("Unknown prompt");
+  });
+});
+
+describe("v1 templates", () => {
+  it("should build the review message from album metadata", () => {
+    const message = PROMPT_REGISTRY.review.v1.buildUserMessage({
+      artistName: "Radiohead",
+      albumTitle: "OK Computer",
+      releaseYear: "1997",
+      genres: "Alternative Rock",
+      recordLabel: "Parlophone",
+    });
+    expect(message).toContain("Artist: Radiohead");
+    expect(message).toContain("Album: OK Computer");
+  });
+
+  it("should ask for the review in the requested language, keeping labels canonical", () => {
+    const album = {
+      artistName: "Radiohead",
+      albumTitle: "OK Computer",
+      releaseYear: "1997",
+      genres: "Alternative Rock",
+      recordLabel: "Parlophone",
+    };
+    const message = PROMPT_REGISTRY.review.v1.buildUserMessage({ ...album, locale: "pt-BR" });
+    expect(message).toContain("in Brazilian Portuguese (pt-BR)");
+    expect(message).toContain("recommendation_display");
+    expect(PROMPT_REGISTRY.review.v1.buildUserMessage({ ...album, locale: "en-GB" }))
+      .toBe(PROMPT_REGISTRY.review.v1.buildUserMessage(album));
+  });
+
+  it("should describe the scanned object and locale for identification", () => {
+    const message = PROMPT_REGISTRY.identification.v1.buildUserMessage({ objectType: "vinyl-label", locale: "ja-JP" });
+    expect(message).toContain("User locale: ja-JP");
+    expect(message).not.toBe(PROMPT_REGISTRY.identification.v1.buildUserMessage({}));
+  });
+
+  it("should pass the locale to batch identification", () => {
+    expect(PROMPT_REGISTRY.batchIdentification.v1.buildUserMessage({ locale: "ko-KR" }))
+      .toContain("User locale: ko-KR");
+    expect(PROMPT_REGISTRY.batchIdentification.v1.systemInstruction).toContain("at most 20 albums");
+  });
+
+  it("should state the code and label for code lookups", () => {
+    const message = PROMPT_REGISTRY.codeLookup.v1.buildUserMessage({ catalogNumber: "CDP 7 46001 2", label: "Capitol" });
+    expect(message).toContain("CDP 7 46001 2");
+    expect(message).toContain("Capitol");
+    expect(PROMPT_REGISTRY.codeLookup.v1.buildUserMessage({ barcode: "0724384260927" })).toContain("0724384260927");
+  });
+
+  it("should request exactly one search for search finalization", () => {
+    const message = PROMPT_REGISTRY.searchFinalization.v1.buildUserMessage({
+      extractedText: "",
+      albumDescription: "Black cover with a prism",
+      textConfidence: "low",
+      searchQuery: "Pink Floyd prism album",
+    });
+    expect(message).toContain("Extracted Text: (none)");
+    expect(message).toContain("Perform exactly ONE web search for: \"Pink Floyd prism album\"");
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Unit Tests for LLM Providers
+ *
+ * Tests request shaping, finish-reason and usage normalization, and error
+ * classification against fake transports.
+ */
+
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import {
+  GeminiProvider,
+  GeminiClient,
+  OpenAIProvider,
+  ProviderError,
+  isRetryableStatus,
+} from "../providers";
+import { FetchLike } from "../providers/openai";
+
+function fakeGemini(
+  respond: (params: GenerateContentParameters) => unknown
+): { client: GeminiClient; calls: GenerateContentParameters[] } {
+  const calls: GenerateContentParameters[] = [];
+  return {
+    calls,
+    client: {
+      models: {
+        generateContent: async (params) => {
+          calls.push(params);
+          return respond(params) as GenerateContentResponse;
+        },
+      },
+    },
+  };
+}
+
+function fakeFetch(
+  status: number,
+  body: unknown
+): { fetch: FetchLike; calls: Array<{ url: string; body: Record<string, unknown> }> } {
+  const calls: Array<{ url: string; body: Record<string, unknown> }> = [];
+  return {
+    calls,
+    fetch: async (url, init) => {
+      calls.push({ url, body: JSON.parse(init.body) });
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        text: async () => JSON.stringify(body),
+        json: async () => body,
+      };
+    },
+  };
+}
+
+describe("isRetryableStatus", () => {
+  it("should retry network failures, timeouts, rate limits and server errors", () => {
+    expect(isRetryableStatus(null)).toBe(true);
+    expect(isRetryableStatus(408)).toBe(true);
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+  });
+
+  it("should not retry client errors", () => {
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(401)).toBe(false);
+  });
+});
+
+describe("GeminiProvider", () => {
+  const okResponse = {
+    candidates: [{
+      content: { parts: [{ text: "{\"artistName\":\"A\"}" }] },
+      finishReason: "STOP",
+      groundingMetadata: { webSearchQueries: ["a b", "c d"] },
+    }],
+    usageMetadata: {
+      promptTokenCount: 100,
+      candidatesTokenCount: 20,
+      thoughtsTokenCount: 5,
+      totalTokenCount: 125,
+    },
+  };
+
+  it("should send image, search tools and system instruction", async () => {
+    const { client, calls } = fakeGemini(() => okResponse);
+    const provider = new GeminiProvider(client, "test-model");
+
+    await provider.generate({
+      prompt: "identify",
+      systemInstruction: "be brief",
+      image: { data: "abc", mimeType: "image/jpeg" },
+      useSearch: true,
+      jsonOutput: true,
+      maxOutputTokens: 2000,
+    });
+
+    expect(calls[0].model).toBe("test-model");
+    expect(calls[0].contents).toEqual([{
+      role: "user",
+      parts: [{ text: "identify" }, { inlineData: { mimeType: "image/jpeg", data: "abc" } }],
+    }]);
+    expect(calls[0].config).toEqual({
+      maxOutputTokens: 2000,
+      systemInstruction: "be brief",
+      tools: [{ googleSearch: {} }],
+    });
+  });
+
+  it("should request JSON mode only without search", async () => {
+    const { client, calls } = fakeGemini(() => okResponse);
+    await new GeminiProvider(client).generate({ prompt: "p", jsonOutput: true, maxOutputTokens: 10 });
+    expect(calls[0].config?.responseMimeType).toBe("application/json");
+  });
+
+  it("should normalize text, usage and grounding", async () => {
+    const { client } = fakeGemini(() => okResponse);
+    const result = await new GeminiProvider(client).generate({
+      prompt: "p",
+      useSearch: true,
+      maxOutputTokens: 10,
+    });
+
+    expect(result.provider).toBe("gemini");
+    expect(result.text).toBe("{\"artistName\":\"A\"}");
+    expect(result.finishReason).toBe("STOP");
+    expect(result.usage).toEqual({
+      inputTokens: 100,
+      outputTokens: 25,
+      totalTokens: 125,
+      searchQueries: 2,
+    });
+    expect(result.grounding?.webSearchQueries).toEqual(["a b", "c d"]);
+  });
+
+  it("should report empty grounding when search returned none", async () => {
+    const { client } = fakeGemini(() => ({ candidates: [{ finishReason: "STOP" }] }));
+    const provider = new GeminiProvider(client);
+
+    expect((await provider.generate({ prompt: "p", useSearch: true, maxOutputTokens: 10 })).grounding)
+      .toEqual({});
+    expect((await provider.generate({ prompt: "p", maxOutputTokens: 10 })).grounding).toBeNull();
+  });
+
+  it("should stream text deltas and collect the final chunk's metadata", async () => {
+    const chunks = [
+      { candidates: [{ content: { parts: [{ text: "{\"artistName\"" }] } }] },
+      { candidates: [{ content: { parts: [{ text: ":\"A\"}" }] }, finishReason: "STOP", groundingMetadata: {} }] },
+      { usageMetadata: okResponse.usageMetadata },
+    ];
+    const { client, calls } = fakeGemini(() => okResponse);
+    client.models.generateContentStream = async (params) => {
+      calls.push(params);
+      return (async function* () {
+        yield* chunks as GenerateContentResponse[];
+      })();
+    };
+
+    const deltas: string[] = [];
+    const result = await new GeminiProvider(client).generate({
+      prompt: "p",
+      useSearch: true,
+      maxOutputTokens: 10,
+      onText: (delta) => deltas.push(delta),
+    });
+
+    expect(deltas).toEqual(["{\"artistName\"", ":\"A\"}"]);
+    expect(result.text).toBe("{\"artistName\":\"A\"}");
+    expect(result.finishReason).toBe("STOP");
+    expect(result.usage?.totalTokens).toBe(125);
+    expect(result.grounding).toEqual({});
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should wrap API errors with their status", async () => {
+    const { client } = fakeGemini(() => {
+      throw Object.assign(new Error("quota"), { status: 429 });
+    });
+
+    const error = await new GeminiProvider(client)
+      .generate({ prompt: "p", maxOutputTokens: 10 })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.provider).toBe("gemini");
+    expect(error.status).toBe(429);
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe("OpenAIProvider", () => {
+  const okBody = {
+    id: "x",
+    object: "chat.completion",
+    created: 0,
+    model: "gpt-4o-2024",
+    choices: [{ index: 0, message: { role: "assistant", content: "{}" }, finish_reason: "length" }],
+    usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+  };
+
+  it("should send a vision message with JSON mode", async () => {
+    const { fetch, calls } = fakeFetch(200, okBody);
+    await new OpenAIProvider("key", { fetch }).generate({
+      prompt: "identify",
+      image: { data: "abc", mimeType: "image/jpeg" },
+      jsonOutput: true,
+      maxOutputTokens: 1000,
+    });
+
+    expect(calls[0].body.model).toBe("gpt-4o");
+    expect(calls[0].body.max_tokens).toBe(1000);
+    expect(calls[0].body.response_format).toEqual({ type: "json_object" });
+    expect(calls[0].body.messages).toEqual([{
+      role: "user",
+      content: [
+        { type: "text", text: "identify" },
+        { type: "image_url", image_url: { url: "data:image/jpeg;base64,abc" } },
+      ],
+    }]);
+  });
+
+  it("should use the search model without JSON mode when searching", async () => {
+    const { fetch, calls } = fakeFetch(200, okBody);
+    await new OpenAIProvider("key", { fetch }).generate({
+      prompt: "search",
+      systemInstruction: "sys",
+      useSearch: true,
+      jsonOutput: true,
+      maxOutputTokens: 1000,
+    });
+
+    expect(calls[0].body.model).toBe("gpt-4o-search-preview");
+    expect(calls[0].body.response_format).toBeUndefined();
+    expect(calls[0].body.messages).toEqual([
+      { role: "system", content: "sys" },
+      { role: "user", content: "search" },
+    ]);
+  });
+
+  it("should answer image requests with the vision model, without search", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const { fetch, calls } = fakeFetch(200, okBody);
+    const result = await new OpenAIProvider("key", { fetch }).generate({
+      prompt: "identify",
+      image: { data: "abc", mimeType: "image/jpeg" },
+      useSearch: true,
+      jsonOutput: true,
+      maxOutputTokens: 1000,
+    });
+
+    expect(calls[0].body.model).toBe("gpt-4o");
+    expect(calls[0].body.response_format).toEqual({ type: "json_object" });
+    expect(result.usage?.searchQueries).toBe(0);
+    jest.restoreAllMocks();
+  });
+
+  it("should normalize finish reason and usage", async () => {
+    const { fetch } = fakeFetch(200, okBody);
+    const result = await new OpenAIProvider("key", { fetch }).generate({
+      prompt: "p",
+      maxOutputTokens: 10,
+    });
+
+    expect(result.provider).toBe("openai");
+    expect(result.model).toBe("gpt-4o-2024");
+    expect(result.finishReason).toBe("MAX_TOKENS");
+    expect(result.usage).toEqual({ inputTokens: 50, outputTokens: 10, totalTokens: 60, searchQueries: 0 });
+  });
+
+  it("should classify HTTP errors", async () => {
+    const unauthorized = await new OpenAIProvider("key", { fetch: fakeFetch(401, {}).fetch })
+      .generate({ prompt: "p", maxOutputTokens: 10 })
+      .catch((e) => e);
+    expect(unauthorized).toBeInstanceOf(ProviderError);
+    expect(unauthorized.retryable).toBe(false);
+
+    const unavailable = await new OpenAIProvider("key", { fetch: fakeFetch(503, {}).fetch })
+      .generate({ prompt: "p", maxOutputTokens: 10 })
+      .catch((e) => e);
+    expect(unavailable.status).toBe(503);
+    expect(unavailable.retryable).toBe(true);
+  });
+});
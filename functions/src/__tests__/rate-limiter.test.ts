@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for the Distributed Rate Limiter
+ *
+ * Window math is tested directly. The Firestore-backed limiter runs against an
+ * in-memory Firestore, and also against the emulator when
+ * FIRESTORE_EMULATOR_HOST is set (see `npm run test:emulator`).
+ */
+
+import {
+  applySlidingWindow,
+  applyTokenBucket,
+  applyRateLimit,
+  rateLimitDocId,
+  FirestoreRateLimiter,
+  RateLimitBudget,
+  RateLimitState,
+} from "../utils/rate-limiter";
+import { describeFirestore } from "./fixtures/firestore";
+
+const MINUTE = 60 * 1000;
+
+describe("applySlidingWindow", () => {
+  const budget: RateLimitBudget = { algorithm: "sliding-window", maxRequests: 3, windowMs: MINUTE };
+
+  it("should allow the first request with no prior state", () => {
+    const result = applySlidingWindow(undefined, budget, 0);
+    expect(result.allowed).toBe(true);
+    expect(result.state.count).toBe(1);
+  });
+
+  it("should block once the window is full", () => {
+    let state: RateLimitState | undefined;
+    for (let i = 0; i < 3; i++) {
+      const result = applySlidingWindow(state, budget, 1000 + i);
+      expect(result.allowed).toBe(true);
+      state = result.state;
+    }
+    const blocked = applySlidingWindow(state, budget, 2000);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it("should weight the previous window by its remaining overlap", () => {
+    const state: RateLimitState = { windowStart: 0, count: 3, previousCount: 0 };
+    // 10% into the next window, 90% of the previous 3 requests still count
+    expect(applySlidingWindow(state, budget, MINUTE + 6000).allowed).toBe(false);
+    // 70% into the next window, only 0.9 weighted requests remain
+    expect(applySlidingWindow(state, budget, MINUTE + 42000).allowed).toBe(true);
+  });
+
+  it("should forget windows older than one window ago", () => {
+    const state: RateLimitState = { windowStart: 0, count: 3, previousCount: 3 };
+    const result = applySlidingWindow(state, budget, 5 * MINUTE);
+    expect(result.allowed).toBe(true);
+    expect(result.state).toEqual({ windowStart: 5 * MINUTE, count: 1, previousCount: 0 });
+  });
+});
+
+describe("applyTokenBucket", () => {
+  const budget: RateLimitBudget = { algorithm: "token-bucket", maxRequests: 2, windowMs: MINUTE };
+
+  it("should start with a full bucket", () => {
+    const result = applyTokenBucket(undefined, budget, 0);
+    expect(result.allowed).toBe(true);
+    expect(result.state.tokens).toBe(1);
+  });
+
+  it("should block when the bucket is empty and report refill time", () => {
+    const result = applyTokenBucket({ tokens: 0, lastRefill: 0 }, budget, 0);
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfterMs).toBe(30000);
+  });
+
+  it("should refill continuously over time", () => {
+    const result = applyTokenBucket({ tokens: 0, lastRefill: 0 }, budget, 30000);
+    expect(result.allowed).toBe(true);
+    expect(result.state.tokens).toBeCloseTo(0);
+  });
+
+  it("should not refill beyond capacity", () => {
+    const result = applyTokenBucket({ tokens: 1, lastRefill: 0 }, budget, 10 * MINUTE);
+    expect(result.state.tokens).toBe(1);
+  });
+});
+
+describe("applyRateLimit", () => {
+  it("should dispatch on the budget algorithm", () => {
+    const bucket = applyRateLimit(undefined, { algorithm: "token-bucket", maxRequests: 5, windowMs: MINUTE }, 0);
+    const window = applyRateLimit(undefined, { algorithm: "sliding-window", maxRequests: 5, windowMs: MINUTE }, 0);
+    expect(bucket.state.tokens).toBe(4);
+    expect(window.state.count).toBe(1);
+  });
+});
+
+describe("rateLimitDocId", () => {
+  it("should escape characters Firestore does not allow in IDs", () => {
+    expect(rateLimitDocId("identifyAlbumGemini", "1:123:ios/abc")).toBe(
+      "identifyAlbumGemini_1%3A123%3Aios%2Fabc"
+    );
+  });
+});
+
+describeFirestore("FirestoreRateLimiter", (db) => {
+  it("should share counters between limiter instances", async () => {
+    const budgets = {
+      identifyAlbumGemini: { algorithm: "sliding-window" as const, maxRequests: 2, windowMs: MINUTE },
+    };
+    const collection = `rateLimits-${Date.now()}`;
+    const first = new FirestoreRateLimiter(db(), { collection, budgets });
+    const second = new FirestoreRateLimiter(db(), { collection, budgets });
+
+    expect((await first.consume("identifyAlbumGemini", "device-a")).allowed).toBe(true);
+    expect((await second.consume("identifyAlbumGemini", "device-a")).allowed).toBe(true);
+    expect((await first.consume("identifyAlbumGemini", "device-a")).allowed).toBe(false);
+    expect((await second.consume("identifyAlbumGemini", "device-b")).allowed).toBe(true);
+  });
+
+  it("should keep per-function budgets separate", async () => {
+    const budgets = {
+      identifyAlbumGemini: { algorithm: "token-bucket" as const, maxRequests: 1, windowMs: MINUTE },
+      getTracklist: { algorithm: "sliding-window" as const, maxRequests: 5, windowMs: MINUTE },
+    };
+    const limiter = new FirestoreRateLimiter(db(), { collection: `rateLimits-${Date.now()}`, budgets });
+
+    expect((await limiter.consume("identifyAlbumGemini", "device-a")).allowed).toBe(true);
+    expect((await limiter.consume("identifyAlbumGemini", "device-a")).allowed).toBe(false);
+    expect((await limiter.consume("getTracklist", "device-a")).allowed).toBe(true);
+  });
+
+  it("should give shared identities a global budget split over shards", async () => {
+    const budgets = {
+      identifyAlbumGemini: { algorithm: "token-bucket" as const, maxRequests: 1, windowMs: MINUTE },
+    };
+    const sharedBudgets = {
+      identifyAlbumGemini: { algorithm: "token-bucket" as const, maxRequests: 20, windowMs: MINUTE },
+    };
+    let shard = 0;
+    const limiter = new FirestoreRateLimiter(db(), {
+      collection: `rateLimits-${Date.now()}`,
+      budgets,
+      sharedBudgets,
+      random: () => shard / 10,
+    });
+
+    // Each of the 10 shards admits 2 of the 20
+    const first = await Promise.all([1, 2, 3].map(() => limiter.consume("identifyAlbumGemini", "app:x", { shared: true })));
+    expect(first.map((decision) => decision.allowed)).toEqual([true, true, false]);
+    shard = 1;
+    expect((await limiter.consume("identifyAlbumGemini", "app:x", { shared: true })).allowed).toBe(true);
+    // The per-device budget is untouched
+    expect((await limiter.consume("identifyAlbumGemini", "app:x")).allowed).toBe(true);
+  });
+
+  it("should not over-admit concurrent requests", async () => {
+    const budgets = {
+      generateReviewGemini: { algorithm: "sliding-window" as const, maxRequests: 3, windowMs: MINUTE },
+    };
+    const limiter = new FirestoreRateLimiter(db(), { collection: `rateLimits-${Date.now()}`, budgets });
+
+    const results = await Promise.all(
+      Array.from({ length: 6 }, () => limiter.consume("generateReviewGemini", "device-a"))
+    );
+    expect(results.filter((r) => r.allowed)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for the Recommendation Tier Taxonomy
+ *
+ * Tests label resolution (exact, normalized, alias, fuzzy), tier lookup and
+ * the rendered prompt section.
+ */
+
+import {
+  RECOMMENDATION_LABELS,
+  RECOMMENDATION_TIERS,
+  renderRecommendationTiers,
+  resolveRecommendation,
+  tierForLabel,
+} from "../utils/recommendation-tiers";
+import { PROMPT_REGISTRY } from "../prompts";
+import { parseReviewJson, withRecommendationTier } from "../utils/response-processing";
+
+describe("RECOMMENDATION_TIERS", () => {
+  it("should define 8 tiers of 3 unique labels", () => {
+    expect(RECOMMENDATION_TIERS.map((tier) => tier.tier)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(RECOMMENDATION_LABELS).toHaveLength(24);
+    expect(new Set(RECOMMENDATION_LABELS).size).toBe(24);
+  });
+
+  it("should look up the tier of a label", () => {
+    expect(tierForLabel("Essential Classic")).toBe(1);
+    expect(tierForLabel("Avoid Entirely")).toBe(8);
+  });
+});
+
+describe("renderRecommendationTiers", () => {
+  it("should render one line per tier", () => {
+    const lines = renderRecommendationTiers().split("\n");
+    expect(lines).toHaveLength(8);
+    expect(lines[1]).toBe("TIER 2 (Critical Darlings): Indie Masterpiece | Cult Essential | Critics' Choice");
+  });
+
+  it("should render the review prompt's tier section", () => {
+    expect(PROMPT_REGISTRY.review.v1.systemInstruction).toContain(
+      "   TIER 1 (Undeniable Greatness): Essential Classic | Genre Landmark | Cultural Monument\n" +
+      "   TIER 2 (Critical Darlings): Indie Masterpiece | Cult Essential | Critics' Choice\n"
+    );
+  });
+});
+
+describe("resolveRecommendation", () => {
+  it("should accept canonical labels as-is", () => {
+    expect(resolveRecommendation("Radio Gold")).toEqual({ label: "Radio Gold", tier: 3, match: "exact" });
+  });
+
+  it("should match ignoring case, spacing and curly quotes", () => {
+    expect(resolveRecommendation("Essential classic")).toMatchObject({ label: "Essential Classic", match: "normalized" });
+    expect(resolveRecommendation(" critics’ choice ")).toMatchObject({ label: "Critics' Choice", match: "normalized" });
+  });
+
+  it("should map known near misses to their intended tier", () => {
+    expect(resolveRecommendation("Cult Classic")).toEqual({ label: "Cult Essential", tier: 2, match: "alias" });
+  });
+
+  it("should fuzzy-match spelling variants", () => {
+    expect(resolveRecommendation("Crowd Favourite")).toMatchObject({ label: "Crowd Favorite", match: "fuzzy" });
+    expect(resolveRecommendation("Genre Landmarks")).toMatchObject({ label: "Genre Landmark", match: "fuzzy" });
+  });
+
+  it("should reject labels that are not close to any tier", () => {
+    expect(resolveRecommendation("Must listen")).toBeNull();
+    expect(resolveRecommendation("SKIP")).toBeNull();
+  });
+});
+
+describe("review tier fields", () => {
+  const review = {
+    context_summary: "Summary",
+    context_bullets: ["One", "Two", "Three"],
+    rating: 7,
+    recommendation: "Cult Classic",
+    key_tracks: ["Track"],
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return the canonical label and tier from parsed reviews", () => {
+    const parsed = parseReviewJson(JSON.stringify(review));
+    expect(parsed.recommendation).toBe("Cult Essential");
+    expect(parsed.recommendation_tier).toBe(2);
+  });
+
+  it("should add tiers to reviews cached without them", () => {
+    expect(JSON.parse(withRecommendationTier(JSON.stringify(review)))).toMatchObject({
+      recommendation: "Cult Essential",
+      recommendation_tier: 2,
+    });
+  });
+
+  it("should leave unresolvable cached reviews unchanged", () => {
+    const content = JSON.stringify({ ...review, recommendation: "Must listen" });
+    expect(withRecommendationTier(content)).toBe(content);
+    expect(withRecommendationTier("not json")).toBe("not json");
+  });
+});
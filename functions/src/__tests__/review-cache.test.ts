@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for the Shared Review Cache
+ *
+ * Key normalization is tested directly. The Firestore-backed cache runs
+ * against an in-memory Firestore, and also against the emulator when
+ * FIRESTORE_EMULATOR_HOST is set (see `npm run test:emulator`).
+ */
+
+import {
+  normalizeAlbumText,
+  reviewCacheKey,
+  reviewCacheDocId,
+  ReviewCache,
+  REVIEW_CACHE_TTL_MS,
+  RECENT_REVIEW_CACHE_TTL_MS,
+} from "../utils/review-cache";
+import { describeFirestore } from "./fixtures/firestore";
+
+describe("normalizeAlbumText", () => {
+  it("should ignore case, punctuation and extra whitespace", () => {
+    expect(normalizeAlbumText("  OK   Computer! ")).toBe("ok computer");
+  });
+
+  it("should strip a leading \"The\"", () => {
+    expect(normalizeAlbumText("The Beatles")).toBe("beatles");
+    expect(normalizeAlbumText("Theatre of Tragedy")).toBe("theatre of tragedy");
+  });
+
+  it("should strip accents", () => {
+    expect(normalizeAlbumText("Björk")).toBe("bjork");
+    expect(normalizeAlbumText("Sigur Rós")).toBe("sigur ros");
+  });
+
+  it("should drop edition qualifiers in brackets", () => {
+    expect(normalizeAlbumText("Nevermind (Remastered)")).toBe("nevermind");
+    expect(normalizeAlbumText("Nevermind [20th Anniversary Deluxe Edition]")).toBe("nevermind");
+  });
+
+  it("should keep other bracketed text", () => {
+    expect(normalizeAlbumText("(What's the Story) Morning Glory?")).toBe("what s the story morning glory");
+  });
+
+  it("should treat & and \"and\" the same", () => {
+    expect(normalizeAlbumText("Simon & Garfunkel")).toBe(normalizeAlbumText("Simon and Garfunkel"));
+  });
+
+  it("should keep letters of non-Latin scripts", () => {
+    expect(normalizeAlbumText("Кино")).toBe("кино");
+    expect(normalizeAlbumText("宇多田ヒカル")).toBe("宇多田ヒカル");
+    expect(normalizeAlbumText("「ガ」")).toBe("ガ");
+  });
+});
+
+describe("reviewCacheKey", () => {
+  it("should match spelling variants of the same album", () => {
+    const a = reviewCacheKey({ artistName: "Nirvana", albumTitle: "Nevermind", releaseYear: "1991" }, "v1");
+    const b = reviewCacheKey({ artistName: "NIRVANA", albumTitle: "Nevermind (Remastered)", releaseYear: "1991" }, "v1");
+    expect(a).toBe("nirvana|nevermind|1991|v1");
+    expect(b).toBe(a);
+  });
+
+  it("should distinguish different years", () => {
+    const a = reviewCacheKey({ artistName: "Weezer", albumTitle: "Weezer", releaseYear: "1994" }, "v1");
+    const b = reviewCacheKey({ artistName: "Weezer", albumTitle: "Weezer", releaseYear: "2001" }, "v1");
+    expect(a).not.toBe(b);
+  });
+
+  it("should not collide for non-Latin albums of the same year", () => {
+    const a = reviewCacheKey({ artistName: "宇多田ヒカル", albumTitle: "初恋", releaseYear: "2018" }, "v1");
+    const b = reviewCacheKey({ artistName: "椎名林檎", albumTitle: "三毒史", releaseYear: "2018" }, "v1");
+    expect(a).toBe("宇多田ヒカル|初恋|2018|v1");
+    expect(b).not.toBe(a);
+    expect(reviewCacheKey({ artistName: "Кино", albumTitle: "Группа крови", releaseYear: "1988" }, "v1"))
+      .toBe("кино|группа крови|1988|v1");
+  });
+
+  it("should not key albums whose names have no letters or digits", () => {
+    expect(reviewCacheKey({ artistName: "!!!", albumTitle: "Louden Up Now", releaseYear: "2004" }, "v1")).toBeNull();
+  });
+
+  it("should normalize unknown years", () => {
+    const key = reviewCacheKey({ artistName: "Artist", albumTitle: "Album", releaseYear: "Unknown" }, "v1");
+    expect(key).toBe("artist|album|unknown|v1");
+  });
+
+  it("should key reviews by prompt version", () => {
+    const album = { artistName: "Nirvana", albumTitle: "Nevermind", releaseYear: "1991" };
+    expect(reviewCacheKey(album, "v2")).not.toBe(reviewCacheKey(album, "v1"));
+  });
+
+  it("should key localized reviews by locale, sharing the English key", () => {
+    const album = { artistName: "Nirvana", albumTitle: "Nevermind", releaseYear: "1991" };
+    expect(reviewCacheKey(album, "v1", "ja-JP")).toBe("nirvana|nevermind|1991|v1|ja-jp");
+    expect(reviewCacheKey(album, "v1", "pt-BR")).not.toBe(reviewCacheKey(album, "v1", "pt-PT"));
+    expect(reviewCacheKey(album, "v1", "en-GB")).toBe(reviewCacheKey(album, "v1"));
+  });
+});
+
+describe("reviewCacheDocId", () => {
+  it("should produce a stable hex document ID", () => {
+    expect(reviewCacheDocId("nirvana|nevermind|1991")).toMatch(/^[0-9a-f]{64}$/);
+    expect(reviewCacheDocId("a")).toBe(reviewCacheDocId("a"));
+  });
+});
+
+describeFirestore("ReviewCache", (db) => {
+  let now: number;
+  let cache: ReviewCache;
+
+  beforeEach(() => {
+    now = Date.now();
+    cache = new ReviewCache(db(), { collection: `reviewCache-${now}`, now: () => now });
+  });
+
+  it("should return a stored review until it expires", async () => {
+    await cache.set("nirvana|nevermind|1991", "{\"rating\":9}", {
+      recentRelease: false,
+      provider: "gemini",
+      promptVersion: "v1",
+    });
+    const hit = await cache.get("nirvana|nevermind|1991");
+    expect(hit?.content).toBe("{\"rating\":9}");
+    expect(hit?.provider).toBe("gemini");
+    expect(hit?.promptVersion).toBe("v1");
+
+    now += REVIEW_CACHE_TTL_MS;
+    expect(await cache.get("nirvana|nevermind|1991")).toBeNull();
+  });
+
+  it("should expire recent releases sooner", async () => {
+    await cache.set("artist|new album|2025", "{}", { recentRelease: true, provider: "openai", promptVersion: "v1" });
+    now += RECENT_REVIEW_CACHE_TTL_MS;
+    expect(await cache.get("artist|new album|2025")).toBeNull();
+  });
+
+  it("should miss for unknown keys", async () => {
+    expect(await cache.get("nobody|nothing|unknown")).toBeNull();
+  });
+});
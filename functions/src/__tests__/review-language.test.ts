@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Review Language
+ *
+ * Tests locale validation, language naming and the check that a review came
+ * back in the requested language.
+ */
+
+import { ReviewResponse } from "../schemas";
+import {
+  LanguageMismatchError,
+  assertReviewLanguage,
+  isDefaultLanguage,
+  languageName,
+  normalizeLocale,
+  reviewLanguageMatches,
+} from "../utils/review-language";
+
+function review(context_summary: string, context_bullets: string[]): ReviewResponse {
+  return { context_summary, context_bullets, rating: 9, recommendation: "Essential Classic", key_tracks: ["Airbag"] };
+}
+
+const ENGLISH = review(
+  "Radiohead's third album is one of the defining records of the late nineties and the start of their experimental era.",
+  ["Critics at Pitchfork gave it a perfect score", "It topped the UK chart on release", "Its influence on the bands that followed is hard to overstate"]
+);
+
+describe("normalizeLocale", () => {
+  it("should return the canonical form of a language tag", () => {
+    expect(normalizeLocale("en-US")).toBe("en-US");
+    expect(normalizeLocale("pt-br")).toBe("pt-BR");
+    expect(normalizeLocale("zh-hant-tw")).toBe("zh-Hant-TW");
+  });
+
+  it("should reject values that are not language tags", () => {
+    expect(normalizeLocale(42)).toBeNull();
+    expect(normalizeLocale("")).toBeNull();
+    expect(normalizeLocale("en_US")).toBeNull();
+    expect(normalizeLocale("en-")).toBeNull();
+    expect(normalizeLocale(`en-${"abcdefgh-".repeat(4)}x`)).toBeNull();
+  });
+});
+
+describe("isDefaultLanguage", () => {
+  it("should treat a missing or English locale as the default", () => {
+    expect(isDefaultLanguage(undefined)).toBe(true);
+    expect(isDefaultLanguage("en-AU")).toBe(true);
+    expect(isDefaultLanguage("es-MX")).toBe(false);
+  });
+});
+
+describe("languageName", () => {
+  it("should name known languages and reject unknown ones", () => {
+    expect(languageName("ja")).toBe("Japanese");
+    expect(languageName("pt-BR")).toBe("Brazilian Portuguese");
+    expect(languageName("xq")).toBeNull();
+  });
+});
+
+describe("reviewLanguageMatches", () => {
+  it("should check non-Latin languages by script, allowing Latin names", () => {
+    const japanese = review("Radiohead の3作目は90年代後半を代表する名盤であり、実験的な時代の始まりでもある。", [
+      "Pitchfork は満点を付けた",
+      "発売時に全英チャート1位を獲得",
+      "後続のバンドへの影響は計り知れない",
+    ]);
+    expect(reviewLanguageMatches(japanese, "ja-JP")).toBe(true);
+    expect(reviewLanguageMatches(ENGLISH, "ja-JP")).toBe(false);
+    expect(reviewLanguageMatches(japanese, "ko-KR")).toBe(false);
+  });
+
+  it("should check Latin-script languages by function words", () => {
+    const spanish = review(
+      "El tercer álbum de Radiohead es uno de los discos que definieron el final de los noventa y el inicio de su etapa experimental.",
+      ["Pitchfork le dio la nota máxima", "Llegó al número uno en el Reino Unido", "Su influencia en las bandas que siguieron es enorme"]
+    );
+    expect(reviewLanguageMatches(spanish, "es-MX")).toBe(true);
+    expect(reviewLanguageMatches(ENGLISH, "es-MX")).toBe(false);
+  });
+
+  it("should not judge languages it cannot check", () => {
+    expect(reviewLanguageMatches(ENGLISH, "fi-FI")).toBeNull();
+    expect(reviewLanguageMatches(ENGLISH, "en-US")).toBeNull();
+  });
+});
+
+describe("assertReviewLanguage", () => {
+  it("should throw with the parsed review when the language is wrong", () => {
+    expect(() => assertReviewLanguage(ENGLISH, "fr-FR")).toThrow(LanguageMismatchError);
+    try {
+      assertReviewLanguage(ENGLISH, "fr-FR");
+    } catch (error) {
+      expect((error as LanguageMismatchError).review).toBe(ENGLISH);
+      expect((error as LanguageMismatchError).message).toBe("Review prose must be written in French (France)");
+    }
+    expect(() => assertReviewLanguage(ENGLISH, "fi-FI")).not.toThrow();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Review Sources
+ *
+ * Tests outlet naming, redirect resolution and building the structured
+ * sources of a grounded review.
+ */
+
+import { GroundingChunk } from "../utils/gemini-helpers";
+import {
+  GROUNDING_REDIRECT_HOST,
+  HttpHead,
+  RedirectResolver,
+  buildReviewSources,
+  createRedirectResolver,
+  outletForDomain,
+  siteDomain,
+} from "../utils/review-sources";
+
+const redirect = (id: string) => `https://${GROUNDING_REDIRECT_HOST}/grounding-api-redirect/${id}`;
+
+describe("outletForDomain", () => {
+  it("should name known outlets, including subdomains", () => {
+    expect(outletForDomain("rollingstone.com")).toBe("Rolling Stone");
+    expect(outletForDomain("www.albumoftheyear.org")).toBe("Album of the Year");
+    expect(outletForDomain("en.wikipedia.org")).toBe("Wikipedia");
+    expect(outletForDomain("music.theguardian.com")).toBe("The Guardian");
+  });
+
+  it("should return unknown domains as they are", () => {
+    expect(outletForDomain("www.example-zine.co.uk")).toBe("example-zine.co.uk");
+  });
+});
+
+describe("siteDomain", () => {
+  it("should count subdomains with their site", () => {
+    expect(siteDomain("en.wikipedia.org")).toBe("wikipedia.org");
+    expect(siteDomain("www.metacritic.com")).toBe("metacritic.com");
+    expect(siteDomain("blog.example.com")).toBe("example.com");
+    expect(siteDomain("music.example.co.uk")).toBe("example.co.uk");
+  });
+});
+
+describe("createRedirectResolver", () => {
+  const head = (status: number, location: string | null): HttpHead =>
+    async () => ({ status, headers: { get: (name) => name === "location" ? location : null } });
+
+  it("should return the redirect target", async () => {
+    const resolve = createRedirectResolver({ fetch: head(302, "https://pitchfork.com/reviews/albums/ok-computer/") });
+    expect(await resolve(redirect("a"))).toBe("https://pitchfork.com/reviews/albums/ok-computer/");
+  });
+
+  it("should return null for non-redirects and failures", async () => {
+    expect(await createRedirectResolver({ fetch: head(200, null) })(redirect("a"))).toBeNull();
+    expect(await createRedirectResolver({ fetch: head(302, "/relative") })(redirect("a"))).toBeNull();
+    const failing: HttpHead = async () => {
+      throw new Error("timed out");
+    };
+    expect(await createRedirectResolver({ fetch: failing })(redirect("a"))).toBeNull();
+  });
+});
+
+describe("buildReviewSources", () => {
+  const targets: Record<string, string> = {
+    [redirect("pitchfork")]: "https://pitchfork.com/reviews/albums/ok-computer/",
+    [redirect("pitchfork-again")]: "https://pitchfork.com/reviews/albums/ok-computer/",
+    [redirect("wiki")]: "https://en.wikipedia.org/wiki/OK_Computer",
+  };
+  const resolve: RedirectResolver = async (url) => targets[url] ?? null;
+
+  it("should resolve redirects, name outlets and list citing bullets", async () => {
+    const chunks: GroundingChunk[] = [
+      { web: { title: "pitchfork.com", uri: redirect("pitchfork") } },
+      { web: { title: "en.wikipedia.org", uri: redirect("wiki") } },
+      { web: { title: "OK Computer review", uri: "https://www.rollingstone.com/music/ok-computer" } },
+    ];
+    const sources = await buildReviewSources(chunks, [[1], [0, 2], []], resolve);
+
+    expect(sources).toEqual([
+      {
+        outlet: "Pitchfork",
+        domain: "pitchfork.com",
+        url: "https://pitchfork.com/reviews/albums/ok-computer/",
+        title: null,
+        citedByBullets: [1],
+      },
+      {
+        outlet: "Wikipedia",
+        domain: "en.wikipedia.org",
+        url: "https://en.wikipedia.org/wiki/OK_Computer",
+        title: null,
+        citedByBullets: [0],
+      },
+      {
+        outlet: "Rolling Stone",
+        domain: "rollingstone.com",
+        url: "https://www.rollingstone.com/music/ok-computer",
+        title: "OK Computer review",
+        citedByBullets: [1],
+      },
+    ]);
+  });
+
+  it("should merge chunks resolving to the same page", async () => {
+    const chunks: GroundingChunk[] = [
+      { web: { title: "pitchfork.com", uri: redirect("pitchfork") } },
+      { web: { title: "pitchfork.com", uri: redirect("pitchfork-again") } },
+    ];
+    const sources = await buildReviewSources(chunks, [[1], [0], [1]], resolve);
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].citedByBullets).toEqual([0, 1, 2]);
+  });
+
+  it("should keep unresolved redirects, taking the domain from the title", async () => {
+    const chunks: GroundingChunk[] = [{ web: { title: "metacritic.com", uri: redirect("unknown") } }];
+    const [source] = await buildReviewSources(chunks, [[0]], resolve);
+
+    expect(source).toMatchObject({ outlet: "Metacritic", domain: "metacritic.com", url: redirect("unknown") });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for Review Streaming
+ *
+ * Tests progressive summary/bullet extraction from partial review JSON and
+ * Server-Sent Event formatting.
+ */
+
+import { ReviewStreamEvent, ReviewStreamParser, formatSseEvent } from "../utils/review-stream";
+
+const REVIEW = JSON.stringify({
+  context_summary: "A \"landmark\" record.",
+  context_bullets: ["First, with a \\ backslash", "Second", "Third"],
+  rating: 9,
+  recommendation: "Genre Landmark",
+  key_tracks: ["Track"],
+});
+
+/** Feeds text to a parser in fixed-size deltas, collecting every event */
+function feed(text: string, size: number): ReviewStreamEvent[] {
+  const parser = new ReviewStreamParser();
+  const events: ReviewStreamEvent[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    events.push(...parser.push(text.slice(i, i + size)));
+  }
+  return events;
+}
+
+describe("ReviewStreamParser", () => {
+  it("should emit the summary and each bullet once, in order", () => {
+    const expected = [
+      { event: "summary", data: { context_summary: "A \"landmark\" record." } },
+      { event: "bullet", data: { index: 0, text: "First, with a \\ backslash" } },
+      { event: "bullet", data: { index: 1, text: "Second" } },
+      { event: "bullet", data: { index: 2, text: "Third" } },
+    ];
+    expect(feed(REVIEW, 1)).toEqual(expected);
+    expect(feed(REVIEW, 7)).toEqual(expected);
+    expect(feed(REVIEW, REVIEW.length)).toEqual(expected);
+  });
+
+  it("should hold back strings that are not yet complete", () => {
+    const parser = new ReviewStreamParser();
+    expect(parser.push("{\"context_summary\": \"Half a sum")).toEqual([]);
+    expect(parser.push("mary\", \"context_bullets\": [\"One\", \"Tw")).toEqual([
+      { event: "summary", data: { context_summary: "Half a summary" } },
+      { event: "bullet", data: { index: 0, text: "One" } },
+    ]);
+    expect(parser.push("o\"")).toEqual([{ event: "bullet", data: { index: 1, text: "Two" } }]);
+  });
+
+  it("should tolerate a markdown fence before the JSON", () => {
+    expect(feed("```json\n" + REVIEW + "\n```", 5)).toHaveLength(4);
+  });
+
+  it("should emit nothing for text that is not review JSON", () => {
+    expect(feed("I can't review this album.", 3)).toEqual([]);
+  });
+});
+
+describe("formatSseEvent", () => {
+  it("should write the event name and JSON data on single lines", () => {
+    expect(formatSseEvent({ event: "bullet", data: { index: 0, text: "Line\nbreak" } }))
+      .toBe("event: bullet\ndata: {\"index\":0,\"text\":\"Line\\nbreak\"}\n\n");
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Unit Tests for Response Schemas
+ *
+ * Tests the review and identification schemas, violation reports and safe coercions.
+ */
+
+import {
+  BATCH_IDENTIFICATION_SCHEMA,
+  IDENTIFICATION_SCHEMA,
+  REVIEW_SCHEMA,
+  SEARCH_FINALIZATION_SCHEMA,
+  SchemaValidationError,
+  assertSchema,
+  validateSchema,
+} from "../schemas";
+import { parseIdentificationJson, parseReviewJson, withBatchSummary } from "../utils/response-processing";
+
+const validReview = {
+  context_summary: "Great album",
+  context_bullets: ["Point 1", "Point 2", "Point 3"],
+  rating: 8.5,
+  recommendation: "Essential Classic",
+  key_tracks: ["Track 1", "Track 2"],
+};
+
+const observation = {
+  extractedText: "RADIOHEAD OK COMPUTER",
+  albumDescription: "White motorway interchange sketches on a blue background.",
+  textConfidence: "high",
+  labelLogoVisible: false,
+  visuallyDistinctive: true,
+};
+
+const identified = {
+  success: true,
+  artistName: "Radiohead",
+  albumTitle: "OK Computer",
+  releaseYear: "1997",
+  genres: ["Alternative Rock"],
+  recordLabel: "Parlophone",
+  confidence: "high",
+  rationale: "Title and artist are printed on the cover.",
+  observation: { ...observation, additionalDetails: null },
+};
+
+const searchRequest = {
+  success: false,
+  needSearch: true,
+  searchRequest: {
+    strategy: "visual",
+    query: "blue motorway sketch cover album",
+    reason: "No legible text",
+    observation,
+  },
+};
+
+const unresolved = { success: false, needSearch: false, errorMessage: "Could not identify album" };
+
+describe("REVIEW_SCHEMA", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should accept a valid review", () => {
+    expect(validateSchema(REVIEW_SCHEMA, validReview).violations).toEqual([]);
+  });
+
+  it("should allow a rating of 0 and additional fields", () => {
+    const review = { ...validReview, rating: 0, extra_field: "allowed" };
+    expect(assertSchema(REVIEW_SCHEMA, review, "review")).toEqual(review);
+  });
+
+  it("should report every missing field", () => {
+    const { violations } = validateSchema(REVIEW_SCHEMA, {});
+    expect(violations.map((violation) => violation.path)).toEqual(
+      ["context_summary", "context_bullets", "rating", "recommendation", "key_tracks"]
+    );
+    expect(violations.every((violation) => violation.message === "is required")).toBe(true);
+  });
+
+  it("should enforce the rating range", () => {
+    const { violations } = validateSchema(REVIEW_SCHEMA, { ...validReview, rating: 11 });
+    expect(violations).toEqual([{ path: "rating", message: "must be between 0 and 10 (got 11)" }]);
+  });
+
+  it("should require 3 to 5 context bullets", () => {
+    expect(validateSchema(REVIEW_SCHEMA, { ...validReview, context_bullets: ["One", "Two"] }).violations[0].message)
+      .toBe("must have at least 3 items (got 2)");
+    expect(validateSchema(REVIEW_SCHEMA, { ...validReview, context_bullets: Array(6).fill("Point") }).violations[0]
+      .message).toBe("must have at most 5 items (got 6)");
+  });
+
+  it("should report the index of an invalid bullet", () => {
+    const { violations } = validateSchema(REVIEW_SCHEMA, { ...validReview, context_bullets: ["One", "", "Three"] });
+    expect(violations).toEqual([{ path: "context_bullets[1]", message: "must not be empty" }]);
+  });
+
+  it("should reject recommendations outside the 24 labels", () => {
+    const { violations } = validateSchema(REVIEW_SCHEMA, { ...validReview, recommendation: "Must listen" });
+    expect(violations[0].path).toBe("recommendation");
+  });
+
+  it("should reject non-array bullets and tracks", () => {
+    const { violations } = validateSchema(
+      REVIEW_SCHEMA,
+      { ...validReview, context_bullets: "not an array", key_tracks: "not an array" }
+    );
+    expect(violations.map((violation) => violation.message)).toEqual([
+      "must be an array (got string)",
+      "must be an array (got string)",
+    ]);
+  });
+
+  it("should coerce a numeric string rating", () => {
+    const { value, violations, coercions } = validateSchema(REVIEW_SCHEMA, { ...validReview, rating: "8.5" });
+    expect(violations).toEqual([]);
+    expect((value as typeof validReview).rating).toBe(8.5);
+    expect(coercions).toEqual(["rating: \"8.5\" -> 8.5"]);
+  });
+
+  it("should reject a non-numeric string rating", () => {
+    const { violations } = validateSchema(REVIEW_SCHEMA, { ...validReview, rating: "great" });
+    expect(violations).toEqual([{ path: "rating", message: "must be a number (got string)" }]);
+  });
+
+  it("should canonicalize recommendation case, spacing and quotes", () => {
+    const review = assertSchema<typeof validReview>(
+      REVIEW_SCHEMA,
+      { ...validReview, recommendation: " critics’  choice" },
+      "review"
+    );
+    expect(review.recommendation).toBe("Critics' Choice");
+  });
+});
+
+describe("IDENTIFICATION_SCHEMA", () => {
+  it("should accept all three response shapes", () => {
+    for (const response of [identified, searchRequest, unresolved]) {
+      expect(validateSchema(IDENTIFICATION_SCHEMA, response).violations).toEqual([]);
+    }
+  });
+
+  it("should validate nested search request fields", () => {
+    const { violations } = validateSchema(IDENTIFICATION_SCHEMA, {
+      ...searchRequest,
+      searchRequest: { ...searchRequest.searchRequest, strategy: "guess", observation: {} },
+    });
+    expect(violations.map((violation) => violation.path)).toEqual([
+      "searchRequest.strategy",
+      "searchRequest.observation.extractedText",
+      "searchRequest.observation.albumDescription",
+      "searchRequest.observation.textConfidence",
+      "searchRequest.observation.labelLogoVisible",
+      "searchRequest.observation.visuallyDistinctive",
+    ]);
+  });
+
+  it("should coerce a numeric release year", () => {
+    const { value, violations } = validateSchema(IDENTIFICATION_SCHEMA, { ...identified, releaseYear: 1997 });
+    expect(violations).toEqual([]);
+    expect((value as typeof identified).releaseYear).toBe("1997");
+  });
+
+  it("should require the artist and album on success", () => {
+    const { violations } = validateSchema(IDENTIFICATION_SCHEMA, { ...identified, artistName: "", albumTitle: undefined });
+    expect(violations).toEqual([
+      { path: "artistName", message: "must not be empty" },
+      { path: "albumTitle", message: "is required" },
+    ]);
+  });
+});
+
+describe("SEARCH_FINALIZATION_SCHEMA", () => {
+  it("should reject a further search request", () => {
+    const { violations } = validateSchema(SEARCH_FINALIZATION_SCHEMA, searchRequest);
+    expect(violations.map((violation) => violation.path)).toEqual(["needSearch", "errorMessage"]);
+  });
+
+  it("should accept identified and unresolved responses", () => {
+    expect(validateSchema(SEARCH_FINALIZATION_SCHEMA, identified).violations).toEqual([]);
+    expect(validateSchema(SEARCH_FINALIZATION_SCHEMA, unresolved).violations).toEqual([]);
+  });
+});
+
+describe("BATCH_IDENTIFICATION_SCHEMA", () => {
+  const boundingBox = { x: 0.1, y: 0.2, width: 0.3, height: 0.4 };
+  const batchIdentified = { ...identified, observation: undefined, confidence: "low", boundingBox };
+  const batchUnresolved = { success: false, confidence: "low", errorMessage: "Spine unreadable", boundingBox };
+
+  it("should accept identified and unresolved albums, or none", () => {
+    expect(validateSchema(BATCH_IDENTIFICATION_SCHEMA, { albums: [batchIdentified, batchUnresolved] }).violations)
+      .toEqual([]);
+    expect(validateSchema(BATCH_IDENTIFICATION_SCHEMA, { albums: [] }).violations).toEqual([]);
+  });
+
+  it("should require normalized bounding boxes", () => {
+    const { violations } = validateSchema(BATCH_IDENTIFICATION_SCHEMA, {
+      albums: [{ ...batchUnresolved, boundingBox: { ...boundingBox, x: 120, height: undefined } }],
+    });
+    expect(violations.map((violation) => violation.path)).toEqual([
+      "albums[0].boundingBox.x",
+      "albums[0].boundingBox.height",
+    ]);
+  });
+
+  it("should cap the number of albums", () => {
+    const { violations } = validateSchema(BATCH_IDENTIFICATION_SCHEMA, { albums: Array(21).fill(batchUnresolved) });
+    expect(violations.map((violation) => violation.path)).toEqual(["albums"]);
+  });
+
+  it("should summarize complete, partial and empty batches", () => {
+    const summary = (albums: unknown[]) => JSON.parse(withBatchSummary(JSON.stringify({ albums })));
+    expect(summary([batchIdentified])).toMatchObject({ status: "complete", identifiedCount: 1, unresolvedCount: 0 });
+    expect(summary([batchIdentified, batchUnresolved])).toMatchObject({ status: "partial", unresolvedCount: 1 });
+    expect(summary([batchUnresolved])).toMatchObject({ status: "none", identifiedCount: 0 });
+    expect(summary([])).toMatchObject({ status: "none", albums: [] });
+  });
+});
+
+describe("parseIdentificationJson", () => {
+  it("should strip fences and re-serialize", () => {
+    const text = "```json\n" + JSON.stringify(unresolved) + "\n```";
+    expect(JSON.parse(parseIdentificationJson(text))).toEqual(unresolved);
+  });
+
+  it("should throw a SchemaValidationError listing violations", () => {
+    expect(() => parseIdentificationJson(JSON.stringify({ success: true }))).toThrow(SchemaValidationError);
+    expect(() => parseIdentificationJson(JSON.stringify({ success: true })))
+      .toThrow(/artistName is required; albumTitle is required/);
+  });
+});
+
+describe("parseReviewJson", () => {
+  it("should return the coerced review", () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    expect(parseReviewJson(JSON.stringify({ ...validReview, rating: "7" })).rating).toBe(7);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit Tests for Self-Repair
+ *
+ * Tests continuation of truncated responses, re-asking on invalid JSON and
+ * the retry bounds.
+ */
+
+import {
+  GenerationRequest,
+  GenerationResult,
+  LLMProvider,
+  ProviderError,
+  RepairReason,
+  repairGeneration,
+} from "../providers";
+import { parseReviewJson } from "../utils/response-processing";
+import { assertReviewLanguage } from "../utils/review-language";
+
+const REQUEST: GenerationRequest = { prompt: "Review this album", maxOutputTokens: 1000, useSearch: true };
+
+const REVIEW = JSON.stringify({
+  context_summary: "Summary",
+  context_bullets: ["One", "Two", "Three"],
+  rating: 8,
+  recommendation: "Genre Landmark",
+  key_tracks: ["Track"],
+});
+
+function result(text: string, overrides: Partial<GenerationResult> = {}): GenerationResult {
+  return {
+    provider: "gemini",
+    model: "gemini-model",
+    text,
+    finishReason: "STOP",
+    usage: null,
+    grounding: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Provider answering with the given results in order, recording each request
+ */
+function scriptedProvider(...results: Array<GenerationResult | Error>): LLMProvider & { requests: GenerationRequest[] } {
+  const provider = {
+    name: "gemini" as const,
+    requests: [] as GenerationRequest[],
+    async generate(request: GenerationRequest): Promise<GenerationResult> {
+      provider.requests.push(request);
+      const next = results.shift();
+      if (!next) throw new Error("unexpected call");
+      if (next instanceof Error) throw next;
+      return next;
+    },
+  };
+  return provider;
+}
+
+describe("repairGeneration", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return valid output without retrying", async () => {
+    const provider = scriptedProvider();
+    const outcome = await repairGeneration(provider, REQUEST, result(REVIEW), parseReviewJson);
+    expect(outcome.value?.rating).toBe(8);
+    expect(outcome.retries).toEqual([]);
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it("should continue a truncated response with a larger budget", async () => {
+    const cut = 40;
+    const provider = scriptedProvider(result(REVIEW.slice(cut)));
+    const outcome = await repairGeneration(
+      provider,
+      REQUEST,
+      result(REVIEW.slice(0, cut), { finishReason: "MAX_TOKENS", grounding: { webSearchQueries: ["q"] } }),
+      parseReviewJson
+    );
+
+    expect(outcome.value?.recommendation).toBe("Genre Landmark");
+    expect(outcome.retries).toEqual(["max-tokens"]);
+    expect(outcome.result.text).toBe(REVIEW);
+    expect(outcome.result.grounding).toEqual({ webSearchQueries: ["q"] });
+    expect(provider.requests[0]).toMatchObject({ maxOutputTokens: 2000, useSearch: false });
+    expect(provider.requests[0].prompt).toContain(REVIEW.slice(0, cut));
+  });
+
+  it("should request continuations as plain text even in JSON mode", async () => {
+    const cut = 40;
+    const provider = scriptedProvider(result(REVIEW.slice(cut)));
+    const outcome = await repairGeneration(
+      provider,
+      { ...REQUEST, useSearch: false, jsonOutput: true },
+      result(REVIEW.slice(0, cut), { finishReason: "MAX_TOKENS" }),
+      parseReviewJson
+    );
+
+    expect(outcome.value).not.toBeNull();
+    expect(provider.requests[0].jsonOutput).toBe(false);
+  });
+
+  it("should re-run an empty truncated response with the original prompt", async () => {
+    const provider = scriptedProvider(result(REVIEW));
+    const outcome = await repairGeneration(
+      provider,
+      REQUEST,
+      result("", { finishReason: "MAX_TOKENS" }),
+      parseReviewJson
+    );
+    expect(outcome.value).not.toBeNull();
+    expect(provider.requests[0].prompt).toBe(REQUEST.prompt);
+  });
+
+  it("should re-ask with the error and broken output", async () => {
+    const broken = REVIEW.replace("\"Genre Landmark\"", "\"Must listen\"");
+    const provider = scriptedProvider(result(REVIEW));
+    const outcome = await repairGeneration(provider, REQUEST, result(broken), parseReviewJson);
+
+    expect(outcome.value).not.toBeNull();
+    expect(outcome.retries).toEqual(["schema-violation"]);
+    expect(provider.requests[0].prompt).toContain("recommendation must be one of the allowed values");
+    expect(provider.requests[0].prompt).toContain(broken);
+  });
+
+  it("should classify unparseable text as a parse error", async () => {
+    const provider = scriptedProvider(result(REVIEW));
+    const outcome = await repairGeneration(provider, REQUEST, result("{\"context_summary\": "), parseReviewJson);
+    expect(outcome.retries).toEqual(["parse-error"]);
+  });
+
+  it("should re-ask a review in the wrong language", async () => {
+    const japanese = REVIEW.replace("\"Summary\"", "\"日本のロックに大きな影響を与えた名盤\"")
+      .replace("\"One\", \"Two\", \"Three\"", "\"革新的な音\", \"高い評価\", \"強い影響\"");
+    const provider = scriptedProvider(result(japanese));
+    const english = REVIEW.replace("\"Summary\"", "\"The band and the producer made one of the records of the decade with this album\"");
+    const parseJapanese = (text: string) => {
+      const review = parseReviewJson(text);
+      assertReviewLanguage(review, "ja-JP");
+      return review;
+    };
+    const outcome = await repairGeneration(provider, REQUEST, result(english), parseJapanese);
+
+    expect(outcome.value?.context_summary).toContain("名盤");
+    expect(outcome.retries).toEqual(["wrong-language"]);
+    expect(provider.requests[0].prompt).toContain("must be written in Japanese");
+  });
+
+  it("should give up after the retry limit", async () => {
+    const provider = scriptedProvider(result("nope"), result("still nope"));
+    const outcome = await repairGeneration(provider, REQUEST, result("not json"), parseReviewJson, { maxRetries: 2 });
+
+    expect(outcome.value).toBeNull();
+    expect(outcome.error).toBeInstanceOf(Error);
+    expect(outcome.retries).toEqual(["parse-error", "parse-error"]);
+    expect(outcome.result.text).toBe("still nope");
+  });
+
+  it("should not raise the budget past the ceiling", async () => {
+    const provider = scriptedProvider();
+    const outcome = await repairGeneration(
+      provider,
+      REQUEST,
+      result("", { finishReason: "MAX_TOKENS" }),
+      parseReviewJson,
+      { maxOutputTokensCeiling: 1000 }
+    );
+    expect(outcome.value).toBeNull();
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it("should stop without throwing when a retry fails upstream", async () => {
+    const provider = scriptedProvider(new ProviderError("overloaded", "gemini", 503, true));
+    const outcome = await repairGeneration(provider, REQUEST, result("not json"), parseReviewJson);
+    expect(outcome.value).toBeNull();
+    expect(outcome.retries).toEqual([]);
+  });
+
+  it("should return the upstream error when a continuation fails", async () => {
+    const upstream = new ProviderError("overloaded", "gemini", 503, true);
+    const provider = scriptedProvider(upstream);
+    const outcome = await repairGeneration(
+      provider,
+      REQUEST,
+      result(REVIEW.slice(0, 40), { finishReason: "MAX_TOKENS" }),
+      parseReviewJson
+    );
+    expect(outcome.value).toBeNull();
+    expect(outcome.error).toBe(upstream);
+  });
+
+  it("should report each retry", async () => {
+    const reported: RepairReason[] = [];
+    const provider = scriptedProvider(result(REVIEW));
+    await repairGeneration(provider, REQUEST, result("not json"), parseReviewJson, {
+      onRetry: async (_result, reason) => {
+        reported.push(reason);
+      },
+    });
+    expect(reported).toEqual(["parse-error"]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit Tests for the Review Source Policy
+ *
+ * Tests priority ranking, the per-site cap and the diversity score.
+ */
+
+import { ReviewSource } from "../utils/review-sources";
+import { MAX_SOURCES_PER_SITE, applySourcePolicy, describeDiversity } from "../utils/source-policy";
+
+const source = (domain: string, citedByBullets: number[] = [0], path = ""): ReviewSource => ({
+  outlet: domain,
+  domain,
+  url: `https://${domain}/${path}`,
+  title: null,
+  citedByBullets,
+});
+
+describe("applySourcePolicy", () => {
+  it("should rank priority outlets first, in priority order", () => {
+    const { sources } = applySourcePolicy([
+      source("en.wikipedia.org"),
+      source("pitchfork.com"),
+      source("www.metacritic.com"),
+      source("nme.com"),
+    ]);
+
+    expect(sources.map((kept) => kept.domain)).toEqual(["www.metacritic.com", "pitchfork.com", "en.wikipedia.org", "nme.com"]);
+  });
+
+  it("should rank cited sources before uncited ones from equally preferred outlets", () => {
+    const { sources } = applySourcePolicy([source("nme.com", []), source("spin.com", [1])]);
+
+    expect(sources[0].domain).toBe("spin.com");
+  });
+
+  it("should cap sources per site, counting subdomains together", () => {
+    const { sources, diversity } = applySourcePolicy([
+      source("en.wikipedia.org", [0], "a"),
+      source("de.wikipedia.org", [1], "b"),
+      source("wikipedia.org", [2], "c"),
+      source("music.bbc.co.uk", [], "a"),
+      source("www.bbc.co.uk", [], "b"),
+      source("bbc.co.uk", [], "c"),
+    ]);
+
+    expect(sources).toHaveLength(2 * MAX_SOURCES_PER_SITE);
+    expect(sources.map((kept) => kept.url)).not.toContain("https://wikipedia.org/c");
+    expect(diversity).toMatchObject({ sourceCount: 4, siteCount: 2, droppedCount: 2, meetsPolicy: false });
+  });
+
+  it("should score full marks for three priority outlets on distinct sites", () => {
+    const { diversity } = applySourcePolicy([source("metacritic.com"), source("pitchfork.com"), source("allmusic.com")]);
+
+    expect(diversity).toMatchObject({ score: 1, priorityOutletCount: 3, meetsPolicy: true });
+  });
+
+  it("should score one site without priority outlets low", () => {
+    const { diversity } = applySourcePolicy([source("example.com", [0], "a"), source("example.com", [1], "b")]);
+
+    expect(diversity.score).toBe(0.25);
+    expect(describeDiversity(diversity)).toBe("score 0.25 (2 sources, 1 sites, 0 priority outlets, 0 dropped)");
+  });
+
+  it("should score no sources as zero", () => {
+    expect(applySourcePolicy([]).diversity).toMatchObject({ score: 0, sourceCount: 0, meetsPolicy: false });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for the Global Spend Circuit Breaker
+ *
+ * Tests stage thresholds, spend caching, transition logging and spend from
+ * a usage ledger whose rollup writes fail.
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import {
+  SpendBudget,
+  SpendGuard,
+  budgetUsedPercent,
+  spendModeAtLeast,
+  spendModeFor,
+} from "../utils/spend-guard";
+import { SpendTotals, UsageEvent, UsageLedger } from "../utils/usage-ledger";
+import { InMemoryFirestore } from "./fixtures/firestore";
+
+const BUDGET: SpendBudget = {
+  dailyUsd: 100,
+  monthlyUsd: 2000,
+  noSearchPercent: 80,
+  cacheOnlyPercent: 90,
+  refusePercent: 100,
+};
+
+describe("budgetUsedPercent", () => {
+  it("should use whichever budget is closer to exhaustion", () => {
+    expect(budgetUsedPercent({ dailyUsd: 50, monthlyUsd: 1800 }, BUDGET)).toBe(90);
+    expect(budgetUsedPercent({ dailyUsd: 85, monthlyUsd: 100 }, BUDGET)).toBe(85);
+  });
+
+  it("should ignore disabled budgets", () => {
+    expect(budgetUsedPercent({ dailyUsd: 500, monthlyUsd: 100 }, { ...BUDGET, dailyUsd: 0 })).toBe(5);
+  });
+});
+
+describe("spendModeFor", () => {
+  it("should degrade in stages", () => {
+    expect(spendModeFor({ dailyUsd: 79, monthlyUsd: 0 }, BUDGET)).toBe("normal");
+    expect(spendModeFor({ dailyUsd: 80, monthlyUsd: 0 }, BUDGET)).toBe("no-search");
+    expect(spendModeFor({ dailyUsd: 95, monthlyUsd: 0 }, BUDGET)).toBe("cache-only");
+    expect(spendModeFor({ dailyUsd: 100, monthlyUsd: 0 }, BUDGET)).toBe("refuse");
+  });
+});
+
+describe("spendModeAtLeast", () => {
+  it("should order modes by severity", () => {
+    expect(spendModeAtLeast("cache-only", "no-search")).toBe(true);
+    expect(spendModeAtLeast("no-search", "cache-only")).toBe(false);
+    expect(spendModeAtLeast("normal", "normal")).toBe(true);
+  });
+});
+
+describe("SpendGuard", () => {
+  let now: number;
+  let spend: SpendTotals;
+  let reads: number;
+  let guard: SpendGuard;
+
+  beforeEach(() => {
+    now = 0;
+    reads = 0;
+    spend = { dailyUsd: 0, monthlyUsd: 0 };
+    guard = new SpendGuard(async () => {
+      reads++;
+      return spend;
+    }, { refreshMs: 1000, now: () => now });
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should skip reads when no budget is configured", async () => {
+    expect(await guard.mode({ ...BUDGET, dailyUsd: 0, monthlyUsd: 0 })).toBe("normal");
+    expect(reads).toBe(0);
+  });
+
+  it("should cache spend until the refresh interval passes", async () => {
+    await guard.mode(BUDGET);
+    spend = { dailyUsd: 100, monthlyUsd: 0 };
+    expect(await guard.mode(BUDGET)).toBe("normal");
+    expect(reads).toBe(1);
+
+    now += 1000;
+    expect(await guard.mode(BUDGET)).toBe("refuse");
+    expect(reads).toBe(2);
+  });
+
+  it("should log each transition once", async () => {
+    spend = { dailyUsd: 85, monthlyUsd: 0 };
+    await guard.mode(BUDGET);
+    await guard.mode(BUDGET);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("normal -> no-search"));
+
+    spend = { dailyUsd: 10, monthlyUsd: 0 };
+    now += 1000;
+    await guard.mode(BUDGET);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("no-search -> normal"));
+  });
+
+  it("should keep the last known spend when reads fail", async () => {
+    spend = { dailyUsd: 95, monthlyUsd: 0 };
+    await guard.mode(BUDGET);
+
+    const failing = new SpendGuard(async () => {
+      throw new Error("unavailable");
+    }, { refreshMs: 1000, now: () => now });
+    expect(await failing.mode(BUDGET)).toBe("normal");
+    expect(await guard.mode(BUDGET)).toBe("cache-only");
+  });
+});
+
+describe("SpendGuard with a usage ledger", () => {
+  const now = Date.parse("2026-10-12T12:00:00Z");
+  // 1M input tokens at list price, about $0.50
+  const call: UsageEvent = {
+    deviceId: "fid:device",
+    functionName: "generateReviewGemini",
+    provider: "gemini",
+    model: "gemini-3-flash-preview",
+    tier: "free",
+    usage: { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000, searchQueries: 0 },
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should still count spend whose rollup write failed", async () => {
+    const db = new InMemoryFirestore();
+    db.failWrites = (path) => path.startsWith("usageTotals/");
+    const ledger = new UsageLedger(db as unknown as Firestore, { now: () => now });
+    const guard = new SpendGuard(() => ledger.getSpend(), { refreshMs: 0, now: () => now });
+
+    const costUsd = await ledger.record(call);
+    const budget = { ...BUDGET, dailyUsd: costUsd, monthlyUsd: 0 };
+    expect(await guard.mode(budget)).toBe("refuse");
+  });
+
+  it("should write failed spend with the next call and not count it twice", async () => {
+    const db = new InMemoryFirestore();
+    db.failWrites = (path) => path.startsWith("usageTotals/");
+    const ledger = new UsageLedger(db as unknown as Firestore, { now: () => now });
+    const costUsd = await ledger.record(call);
+
+    db.failWrites = () => false;
+    await ledger.record(call);
+
+    const spend = await ledger.getSpend();
+    expect(spend.dailyUsd).toBeCloseTo(2 * costUsd, 10);
+    expect(spend.monthlyUsd).toBeCloseTo(2 * costUsd, 10);
+    // A fresh instance sees it all in Firestore
+    const fresh = await new UsageLedger(db as unknown as Firestore, { now: () => now }).getSpend();
+    expect(fresh.dailyUsd).toBeCloseTo(2 * costUsd, 10);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit Tests for Verified Tracklists
+ *
+ * Tests canonical release selection, tracklist shaping and lookups against a
+ * fake MusicBrainz transport. The Firestore-backed cache runs against an
+ * in-memory Firestore, and also against the emulator when
+ * FIRESTORE_EMULATOR_HOST is set (see `npm run test:emulator`).
+ */
+
+import { HttpGet, MusicBrainzClient, MusicBrainzRelease, RequestThrottle } from "../utils/musicbrainz";
+import {
+  fetchTracklist,
+  selectCanonicalRelease,
+  toTracklist,
+  tracklistCacheKey,
+} from "../utils/tracklist";
+import { TracklistCache, TRACKLIST_CACHE_TTL_MS } from "../utils/tracklist-cache";
+import { describeFirestore } from "./fixtures/firestore";
+
+const GROUP_ID = "b1392450-e666-3926-a536-22c65f834433";
+
+const PRESSINGS: MusicBrainzRelease[] = [
+  { id: "reissue", title: "OK Computer", status: "Official", date: "2009-03-24", media: [{ position: 1, format: "CD" }] },
+  { id: "vinyl", title: "OK Computer", status: "Official", date: "1997-05-21", media: [{ position: 1, format: "12\" Vinyl" }] },
+  { id: "cd", title: "OK Computer", status: "Official", date: "1997-05-21", media: [{ position: 1, format: "CD" }] },
+  { id: "promo", title: "OK Computer", status: "Promotion", date: "1997-04-01", media: [{ position: 1, format: "CD" }] },
+  { id: "undated", title: "OK Computer", status: "Official", media: [{ position: 1, format: "CD" }] },
+];
+
+const RELEASE: MusicBrainzRelease = {
+  id: "cd",
+  title: "OK Computer",
+  date: "1997-05-21",
+  country: "GB",
+  "artist-credit": [{ name: "Radiohead" }],
+  "release-group": { id: GROUP_ID },
+  media: [
+    {
+      position: 1,
+      format: "CD",
+      tracks: [
+        { id: "t1", position: 1, number: "1", title: "Airbag", length: 284000, recording: { id: "r1", title: "Airbag" } },
+        { id: "t2", position: 2, number: "2", title: "Paranoid Android", recording: { id: "r2", title: "Paranoid Android", length: 383000 } },
+      ],
+    },
+  ],
+};
+
+/**
+ * Fake MusicBrainz transport answering by URL path, recording each request
+ */
+function fakeMusicBrainz(routes: Record<string, unknown>): { client: MusicBrainzClient; paths: string[] } {
+  const paths: string[] = [];
+  const fetch: HttpGet = async (url) => {
+    const { pathname, searchParams } = new URL(url);
+    const path = searchParams.has("release-group") ? `${pathname}?release-group` : pathname;
+    paths.push(path);
+    const body = routes[path];
+    return { ok: body !== undefined, status: body === undefined ? 404 : 200, json: async () => body };
+  };
+  return {
+    client: new MusicBrainzClient({ baseUrl: "https://mb.test/ws/2", fetch, throttle: new RequestThrottle(0) }),
+    paths,
+  };
+}
+
+describe("selectCanonicalRelease", () => {
+  it("should pick the earliest official release, preferring CD over vinyl", () => {
+    expect(selectCanonicalRelease(PRESSINGS)?.id).toBe("cd");
+  });
+
+  it("should prefer a CD from the first release year over an earlier vinyl", () => {
+    const releases: MusicBrainzRelease[] = [
+      { id: "vinyl", title: "Nevermind", status: "Official", date: "1991-09-24", media: [{ position: 1, format: "12\" Vinyl" }] },
+      { id: "cd", title: "Nevermind", status: "Official", date: "1991-10-15", media: [{ position: 1, format: "CD" }] },
+      { id: "reissue", title: "Nevermind", status: "Official", date: "1992-01-01", media: [{ position: 1, format: "CD" }] },
+    ];
+    expect(selectCanonicalRelease(releases)?.id).toBe("cd");
+  });
+
+  it("should sort partial dates after the precise dates they include", () => {
+    const releases: MusicBrainzRelease[] = [
+      { id: "year-only", title: "Nevermind", status: "Official", date: "1991", media: [{ position: 1, format: "CD" }] },
+      { id: "month-only", title: "Nevermind", status: "Official", date: "1991-09", media: [{ position: 1, format: "CD" }] },
+      { id: "precise", title: "Nevermind", status: "Official", date: "1991-09-24", media: [{ position: 1, format: "CD" }] },
+    ];
+    expect(selectCanonicalRelease(releases)?.id).toBe("precise");
+    expect(selectCanonicalRelease(releases.slice(0, 2))?.id).toBe("month-only");
+  });
+
+  it("should fall back to unofficial releases", () => {
+    expect(selectCanonicalRelease([PRESSINGS[3]])?.id).toBe("promo");
+    expect(selectCanonicalRelease([])).toBeNull();
+  });
+});
+
+describe("toTracklist", () => {
+  it("should list discs and tracks with durations", () => {
+    const tracklist = toTracklist(RELEASE);
+    expect(tracklist).toMatchObject({
+      releaseMbid: "cd",
+      releaseGroupMbid: GROUP_ID,
+      artistName: "Radiohead",
+      albumTitle: "OK Computer",
+      country: "GB",
+      trackCount: 2,
+      totalDurationMs: 667000,
+    });
+    expect(tracklist.discs[0].tracks[1]).toEqual({
+      position: 2,
+      number: "2",
+      title: "Paranoid Android",
+      durationMs: 383000,
+      recordingMbid: "r2",
+    });
+  });
+
+  it("should not total durations when one is unknown", () => {
+    const tracks = RELEASE.media![0].tracks!;
+    const release = { ...RELEASE, media: [{ position: 1, tracks: [tracks[0], { ...tracks[1], recording: undefined }] }] };
+    expect(toTracklist(release).totalDurationMs).toBeNull();
+  });
+});
+
+describe("tracklistCacheKey", () => {
+  it("should key by MBID or normalized names", () => {
+    expect(tracklistCacheKey({ mbid: GROUP_ID.toUpperCase() })).toBe(`mbid:${GROUP_ID}`);
+    expect(tracklistCacheKey({ artistName: "The Beatles", albumTitle: "Abbey Road (Remastered)" }))
+      .toBe("album:beatles|abbey road");
+  });
+
+  it("should keep non-Latin names apart and not key names without letters or digits", () => {
+    expect(tracklistCacheKey({ artistName: "宇多田ヒカル", albumTitle: "初恋" })).toBe("album:宇多田ヒカル|初恋");
+    expect(tracklistCacheKey({ artistName: "椎名林檎", albumTitle: "三毒史" })).toBe("album:椎名林檎|三毒史");
+    expect(tracklistCacheKey({ artistName: "???", albumTitle: "!!!" })).toBeNull();
+  });
+});
+
+describe("fetchTracklist", () => {
+  it("should return the exact release for a release MBID", async () => {
+    const { client, paths } = fakeMusicBrainz({ "/ws/2/release/cd": RELEASE });
+    expect((await fetchTracklist(client, { mbid: "cd" }))?.releaseMbid).toBe("cd");
+    expect(paths).toEqual(["/ws/2/release/cd"]);
+  });
+
+  it("should resolve a release group MBID to its canonical release", async () => {
+    const { client, paths } = fakeMusicBrainz({
+      "/ws/2/release?release-group": { releases: PRESSINGS },
+      "/ws/2/release/cd": RELEASE,
+    });
+    expect((await fetchTracklist(client, { mbid: GROUP_ID }))?.releaseMbid).toBe("cd");
+    expect(paths).toEqual([`/ws/2/release/${GROUP_ID}`, "/ws/2/release?release-group", "/ws/2/release/cd"]);
+  });
+
+  it("should page through release groups with more than one page of releases", async () => {
+    const offsets: string[] = [];
+    const fetch: HttpGet = async (url) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith(`/release/${GROUP_ID}`)) return { ok: false, status: 404, json: async () => null };
+      if (pathname.endsWith("/release/cd")) return { ok: true, status: 200, json: async () => RELEASE };
+      const offset = Number(searchParams.get("offset"));
+      offsets.push(String(offset));
+      // 150 later reissues, then the original CD on the second page
+      const releases = Array.from({ length: 150 }, (_, index) => ({ ...PRESSINGS[0], id: `reissue-${index}` }))
+        .concat(PRESSINGS[2])
+        .slice(offset, offset + 100);
+      return { ok: true, status: 200, json: async () => ({ releases, "release-count": 151 }) };
+    };
+    const client = new MusicBrainzClient({ baseUrl: "https://mb.test/ws/2", fetch, throttle: new RequestThrottle(0) });
+
+    expect((await fetchTracklist(client, { mbid: GROUP_ID }))?.releaseMbid).toBe("cd");
+    expect(offsets).toEqual(["0", "100"]);
+  });
+
+  it("should search by names and use the match's canonical release", async () => {
+    const { client } = fakeMusicBrainz({
+      "/ws/2/release": {
+        releases: [{ ...PRESSINGS[0], score: 100, "artist-credit": [{ name: "Radiohead" }], "release-group": { id: GROUP_ID } }],
+      },
+      "/ws/2/release?release-group": { releases: PRESSINGS },
+      "/ws/2/release/cd": RELEASE,
+    });
+    const tracklist = await fetchTracklist(client, { artistName: "Radiohead", albumTitle: "OK Computer" });
+    expect(tracklist?.releaseMbid).toBe("cd");
+  });
+
+  it("should return null when nothing matches", async () => {
+    const { client } = fakeMusicBrainz({ "/ws/2/release": { releases: [] } });
+    expect(await fetchTracklist(client, { artistName: "Nobody", albumTitle: "Nothing" })).toBeNull();
+  });
+});
+
+describeFirestore("TracklistCache", (db) => {
+  let now: number;
+  let cache: TracklistCache;
+
+  beforeEach(() => {
+    now = Date.now();
+    cache = new TracklistCache(db(), { collection: `tracklistCache-${now}`, now: () => now });
+  });
+
+  it("should return a stored tracklist until it expires", async () => {
+    const tracklist = toTracklist(RELEASE);
+    await cache.set(`mbid:${GROUP_ID}`, tracklist);
+    expect(await cache.get(`mbid:${GROUP_ID}`)).toEqual(tracklist);
+
+    now += TRACKLIST_CACHE_TTL_MS;
+    expect(await cache.get(`mbid:${GROUP_ID}`)).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for the Usage and Cost Ledger
+ *
+ * Pricing, rollup shard merging and summaries are tested directly. The Firestore-backed
+ * ledger runs against an in-memory Firestore, and also against the emulator
+ * when FIRESTORE_EMULATOR_HOST is set (see `npm run test:emulator`).
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import {
+  DailyRollup,
+  MODEL_PRICES,
+  UsageLedger,
+  estimateCostUsd,
+  mergeRollupShards,
+  priceFor,
+  summarizeRollups,
+} from "../utils/usage-ledger";
+import { describeFirestore, InMemoryFirestore } from "./fixtures/firestore";
+
+function rollup(overrides: Partial<DailyRollup>): DailyRollup {
+  return {
+    day: "2026-10-12",
+    tier: "ultra",
+    functionName: "generateReviewGemini",
+    provider: "gemini",
+    calls: 1,
+    inputTokens: 1000,
+    outputTokens: 500,
+    searchQueries: 1,
+    retries: 0,
+    costUsd: 0.01,
+    ...overrides,
+  };
+}
+
+describe("priceFor", () => {
+  it("should match dated model snapshots by prefix", () => {
+    expect(priceFor("gpt-4o-2024-08-06", "openai")).toBe(MODEL_PRICES["gpt-4o"]);
+  });
+
+  it("should prefer the longest matching prefix", () => {
+    expect(priceFor("gpt-4o-search-preview-2025-03-11", "openai")).toBe(MODEL_PRICES["gpt-4o-search-preview"]);
+  });
+
+  it("should fall back to the provider default for unknown models", () => {
+    expect(priceFor("gemini-9-ultra", "gemini")).toBe(MODEL_PRICES["gemini-3-flash"]);
+  });
+});
+
+describe("estimateCostUsd", () => {
+  it("should price input, output and search separately", () => {
+    const cost = estimateCostUsd(
+      { inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: 2_000_000, searchQueries: 1000 },
+      "gemini-3-flash-preview",
+      "gemini"
+    );
+    const price = MODEL_PRICES["gemini-3-flash"];
+    expect(cost).toBeCloseTo(price.inputPerMillion + price.outputPerMillion + price.searchPerThousand);
+  });
+
+  it("should cost nothing for an empty call", () => {
+    expect(estimateCostUsd({ inputTokens: 0, outputTokens: 0, totalTokens: 0, searchQueries: 0 }, "gpt-4o", "openai"))
+      .toBe(0);
+  });
+});
+
+describe("mergeRollupShards", () => {
+  it("should add up the shards of each rollup", () => {
+    const merged = mergeRollupShards([
+      rollup({ retryReasons: { truncated: 1 } }),
+      rollup({ calls: 2, costUsd: 0.02, retries: 1, retryReasons: { truncated: 1, "wrong-language": 1 } }),
+      rollup({ tier: "free" }),
+    ]);
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      tier: "ultra",
+      calls: 3,
+      inputTokens: 2000,
+      retries: 1,
+      retryReasons: { truncated: 2, "wrong-language": 1 },
+    });
+    expect(merged[0].costUsd).toBeCloseTo(0.03);
+  });
+});
+
+describe("summarizeRollups", () => {
+  const rows = [
+    rollup({}),
+    rollup({ day: "2026-10-13", costUsd: 0.02, retries: 1 }),
+    rollup({ tier: "free", costUsd: 0.5 }),
+    rollup({ day: "2026-10-20", costUsd: 1 }),
+  ];
+
+  it("should filter by day range and tier and total the matches", () => {
+    const summary = summarizeRollups(rows, { from: "2026-10-12", to: "2026-10-18", tier: "ultra" });
+    expect(summary.rows).toHaveLength(2);
+    expect(summary.totals.calls).toBe(2);
+    expect(summary.totals.retries).toBe(1);
+    expect(summary.totals.costUsd).toBeCloseTo(0.03);
+  });
+
+  it("should include every tier when none is given", () => {
+    const summary = summarizeRollups(rows, { from: "2026-10-12", to: "2026-10-18" });
+    expect(summary.rows.map((row) => row.tier)).toEqual(["free", "ultra", "ultra"]);
+  });
+});
+
+describeFirestore("UsageLedger", (db) => {
+  let ledger: UsageLedger;
+  const now = Date.parse("2026-10-12T12:00:00Z");
+  const event = {
+    deviceId: "fid:device",
+    functionName: "identifyAlbumGemini",
+    provider: "gemini" as const,
+    model: "gemini-3-flash-preview",
+    tier: "ultra",
+    usage: { inputTokens: 100, outputTokens: 50, totalTokens: 150, searchQueries: 1 },
+  };
+
+  let suffix: number;
+
+  beforeEach(() => {
+    suffix = Date.now();
+    ledger = new UsageLedger(db(), {
+      collection: `usageLedger-${suffix}`,
+      rollupCollection: `usageDaily-${suffix}`,
+      totalsCollection: `usageTotals-${suffix}`,
+      now: () => now,
+    });
+  });
+
+  it("should accumulate calls into the daily rollup", async () => {
+    await ledger.record(event);
+    await ledger.record(event);
+
+    const summary = await ledger.queryRollups({ from: "2026-10-12", to: "2026-10-12", tier: "ultra" });
+    expect(summary.totals.calls).toBe(2);
+    expect(summary.totals.inputTokens).toBe(200);
+    expect(summary.totals.searchQueries).toBe(2);
+  });
+
+  it("should report one row per rollup however many shards it spans", async () => {
+    for (let i = 0; i < 20; i++) {
+      await ledger.record(event);
+    }
+
+    const summary = await ledger.queryRollups({ from: "2026-10-12", to: "2026-10-12" });
+    expect(summary.rows).toHaveLength(1);
+    expect(summary.rows[0].calls).toBe(20);
+  });
+
+  it("should sum spend across the total shards", async () => {
+    const costs: number[] = [];
+    for (let i = 0; i < 20; i++) {
+      costs.push(await ledger.record({ ...event, deviceId: `fid:device-${i}` }));
+    }
+    const spend = await ledger.getSpend();
+    const expected = costs.reduce((sum, cost) => sum + cost, 0);
+    expect(spend.dailyUsd).toBeCloseTo(expected, 10);
+    expect(spend.monthlyUsd).toBeCloseTo(expected, 10);
+  });
+
+  it("should count shared identities in the rollups without a ledger entry", async () => {
+    await ledger.record({ ...event, deviceId: "app:1:123:ios:abc", sharedIdentity: true });
+
+    const summary = await ledger.queryRollups({ from: "2026-10-12", to: "2026-10-12", tier: "ultra" });
+    expect(summary.totals.calls).toBe(1);
+    const entries = await db().collection(`usageLedger-${suffix}`).get();
+    expect(entries.size).toBe(0);
+  });
+});
+
+describe("UsageLedger write failures", () => {
+  it("should keep the ledger entry when the rollup write fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const db = new InMemoryFirestore();
+    db.failWrites = (path) => path.startsWith("usageTotals/");
+    const ledger = new UsageLedger(db as unknown as Firestore, { now: () => Date.parse("2026-10-12T12:00:00Z") });
+
+    await ledger.record({
+      deviceId: "fid:device",
+      functionName: "generateReviewGemini",
+      provider: "gemini",
+      model: "gemini-3-flash-preview",
+      tier: "free",
+      usage: { inputTokens: 100, outputTokens: 50, totalTokens: 150, searchQueries: 0 },
+    });
+
+    const entries = await db.collection("usageLedger").get();
+    expect(entries.docs.map((doc) => doc.get("calls"))).toEqual([1]);
+    expect((await db.collection("usageDaily").get()).empty).toBe(true);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Prompt Registry
+ *
+ * Named, versioned server-side prompts. Versions are immutable once shipped:
+ * changing a prompt means adding a version, so rolling back is a config
+ * change and every response can report which version produced it.
+ *
+ * Version precedence for a request: experiment arm > app pin > active config > default.
+ */
+
+import { BATCH_IDENTIFICATION_PROMPTS } from "./batch-identification";
+import { CODE_LOOKUP_PROMPTS } from "./code-lookup";
+import { IDENTIFICATION_PROMPTS } from "./identification";
+import { REVIEW_PROMPTS } from "./review";
+import { SEARCH_FINALIZATION_PROMPTS } from "./search-finalization";
+import { PromptTemplate, PromptVersions } from "./types";
+
+export * from "./types";
+export { ReviewPromptInput } from "./review";
+export { IdentificationPromptInput, SCAN_OBJECT_TYPES, ScanObjectType } from "./identification";
+export { SearchFinalizationPromptInput, TEXT_CONFIDENCE_LEVELS, TextConfidence } from "./search-finalization";
+export { BatchIdentificationPromptInput, MAX_BATCH_ALBUMS } from "./batch-identification";
+export { CodeLookupPromptInput } from "./code-lookup";
+
+export const PROMPT_REGISTRY = {
+  review: REVIEW_PROMPTS,
+  identification: IDENTIFICATION_PROMPTS,
+  searchFinalization: SEARCH_FINALIZATION_PROMPTS,
+  batchIdentification: BATCH_IDENTIFICATION_PROMPTS,
+  codeLookup: CODE_LOOKUP_PROMPTS,
+};
+
+export type PromptName = keyof typeof PROMPT_REGISTRY;
+
+type PromptInputOf<N extends PromptName> =
+  typeof PROMPT_REGISTRY[N] extends PromptVersions<infer TInput> ? TInput : never;
+
+/** Version used when nothing else selects one */
+export const DEFAULT_PROMPT_VERSIONS: Record<PromptName, string> = {
+  review: "v1",
+  identification: "v1",
+  searchFinalization: "v1",
+  batchIdentification: "v1",
+  codeLookup: "v1",
+};
+
+/** Reported as promptVersion when the client sent its own prompt */
+export const LEGACY_PROMPT_VERSION = "legacy";
+
+/** Active version per prompt, e.g. {"review": "v2"} */
+export type PromptVersionConfig = Partial<Record<PromptName, string>>;
+
+/** Versions pinned per App Check app ID, e.g. {"1:123:ios:abc": {"review": "v1"}} */
+export type PromptAppPins = Record<string, PromptVersionConfig>;
+
+/**
+ * Parses the active-version config (a JSON object of prompt name to version)
+ *
+ * @throws Error if the JSON is not an object of strings
+ */
+export function parsePromptVersions(json: string): PromptVersionConfig {
+  const parsed: unknown = JSON.parse(json);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Prompt versions config must be a JSON object");
+  }
+  for (const [name, version] of Object.entries(parsed)) {
+    if (!hasOwn(PROMPT_REGISTRY, name)) {
+      throw new Error(`Unknown prompt "${name}"`);
+    }
+    if (typeof version !== "string") {
+      throw new Error(`Version for prompt "${name}" must be a string`);
+    }
+  }
+  return parsed as PromptVersionConfig;
+}
+
+/**
+ * Own-property check, so config keys like "constructor" never resolve to
+ * Object.prototype members (`Object.hasOwn` is not in the ES2020 lib)
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Parses the per-app pin config (a JSON object of app ID to version config)
+ *
+ * @throws Error if any app's config is invalid
+ */
+export function parsePromptAppPins(json: string): PromptAppPins {
+  const parsed: unknown = JSON.parse(json);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Prompt app pins config must be a JSON object");
+  }
+  const pins: PromptAppPins = {};
+  for (const [appId, config] of Object.entries(parsed)) {
+    pins[appId] = parsePromptVersions(JSON.stringify(config));
+  }
+  return pins;
+}
+
+export type PromptVersionSource = "experiment" | "app" | "config" | "default";
+
+export interface PromptSelection<N extends PromptName> {
+  version: string;
+  source: PromptVersionSource;
+  template: PromptTemplate<PromptInputOf<N>>;
+}
+
+export interface PromptSelectionContext {
+  /** Version requested by the request's experiment arm */
+  experimentVersion?: string;
+  /** App Check app ID of the caller */
+  appId?: string;
+  active: PromptVersionConfig;
+  pins: PromptAppPins;
+}
+
+/**
+ * Selects the version of a prompt for a request. Candidates naming a version
+ * that does not exist are logged and skipped, so a bad config can never
+ * break a callable.
+ */
+export function selectPrompt<N extends PromptName>(
+  name: N,
+  context: PromptSelectionContext
+): PromptSelection<N> {
+  const versions = PROMPT_REGISTRY[name] as PromptVersions<PromptInputOf<N>>;
+  const candidates: Array<[PromptVersionSource, string | undefined]> = [
+    ["experiment", context.experimentVersion],
+    ["app", context.appId && hasOwn(context.pins, context.appId) ? context.pins[context.appId][name] : undefined],
+    ["config", context.active[name]],
+  ];
+
+  for (const [source, version] of candidates) {
+    if (version === undefined) continue;
+    if (hasOwn(versions, version)) {
+      return { version, source, template: versions[version] };
+    }
+    console.error(`[prompts] Unknown ${name} prompt version "${version}" from ${source}, ignoring`);
+  }
+
+  const version = DEFAULT_PROMPT_VERSIONS[name];
+  return { version, source: "default", template: versions[version] };
+}
@@ -0,0 +1,83 @@
+/**
+ * Search Finalization Prompt (ID Call 2)
+ *
+ * Single-search grounded finalization instruction and the observations
+ * message built from ID Call 1 output.
+ */
+
+import { PromptVersions } from "./types";
+
+export const TEXT_CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+export type TextConfidence = typeof TEXT_CONFIDENCE_LEVELS[number];
+
+export interface SearchFinalizationPromptInput {
+  /** Visible cover text from ID Call 1 (empty if none) */
+  extractedText: string;
+  albumDescription: string;
+  textConfidence: TextConfidence;
+  searchQuery: string;
+}
+
+const SEARCH_FINALIZATION_SYSTEM_INSTRUCTION_V1 = `You are an expert MUSIC ALBUM COVER recognizer finalizing an album identification with web search assistance.
+
+Based on the album cover observations you are given, perform a web search and return the final identification.
+
+## SEARCH RULES
+
+Perform exactly ONE web search, for the query you are given.
+
+IMPORTANT: Use only this single search. Do NOT perform multiple searches or follow-up queries. Work with the results from this one search.
+
+Cross-reference the search results with the cover observations to confirm this is the correct album.
+
+## OUTPUT FORMAT
+
+You MUST return ONLY valid JSON with NO markdown, NO code fences, NO explanatory text.
+
+**If search confirms the album:**
+{
+  "success": true,
+  "artistName": "string",
+  "albumTitle": "string",
+  "releaseYear": "string",
+  "genres": ["string"],
+  "recordLabel": "string",
+  "confidence": "high" or "medium",
+  "rationale": "Short justification combining visible cues with brief reference to search results.",
+  "observation": {
+    "extractedText": "Extracted Text from the observations, unchanged",
+    "albumDescription": "Visual Description from the observations, unchanged",
+    "textConfidence": "Text Confidence from the observations, unchanged",
+    "labelLogoVisible": true or false,
+    "visuallyDistinctive": true or false,
+    "additionalDetails": "Optional visible year/advisory/format/condition; null if none."
+  }
+}
+
+**If search does not resolve the album:**
+{
+  "success": false,
+  "needSearch": false,
+  "errorMessage": "Could not identify album from available data"
+}
+
+Return ONLY the JSON object. No other text.`;
+
+export const SEARCH_FINALIZATION_PROMPTS: PromptVersions<SearchFinalizationPromptInput> = {
+  v1: {
+    systemInstruction: SEARCH_FINALIZATION_SYSTEM_INSTRUCTION_V1,
+    buildUserMessage(req) {
+      return `## PREVIOUS OBSERVATIONS
+
+Extracted Text: ${req.extractedText || "(none)"}
+
+Visual Description: ${req.albumDescription}
+
+Text Confidence: ${req.textConfidence}
+
+## SEARCH TASK
+
+Perform exactly ONE web search for: "${req.searchQuery}"`;
+    },
+  },
+};
@@ -0,0 +1,15 @@
+/**
+ * Prompt Template Types
+ */
+
+/**
+ * One version of a server-built prompt: a fixed system instruction plus a
+ * user message built from the request's validated fields
+ */
+export interface PromptTemplate<TInput> {
+  systemInstruction: string;
+  buildUserMessage(input: TInput): string;
+}
+
+/** All versions of one prompt, keyed by version ("v1", "v2", ...) */
+export type PromptVersions<TInput> = Record<string, PromptTemplate<TInput>>;
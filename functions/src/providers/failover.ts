@@ -0,0 +1,236 @@
+/**
+ * Provider Failover
+ *
+ * Runs a request against a primary provider and, on retryable upstream
+ * failures (5xx, overload, rate limits, timeouts), against a secondary one.
+ * A per-provider circuit breaker stops sending traffic to a provider that
+ * keeps failing until a cooldown has passed.
+ *
+ * Breaker state is per function instance on purpose: it must be checked on
+ * every call without a round trip, and each instance learns about an outage
+ * within a few failed requests anyway.
+ */
+
+import {
+  LLMProvider,
+  GenerationRequest,
+  GenerationResult,
+  ProviderError,
+  ProviderName,
+} from "./types";
+
+export const DEFAULT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_COOLDOWN_MS = 60 * 1000;
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 50 * 1000;
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive retryable failures that open the circuit */
+  failureThreshold?: number;
+  /** How long an open circuit rejects traffic before allowing a probe */
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Consecutive-failure circuit breaker. After the cooldown a single probe
+ * request is let through (half-open); its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return this.now() - this.openedAt >= this.cooldownMs ? "half-open" : "open";
+  }
+
+  /**
+   * Whether a request may be sent now (claims the probe slot when half-open)
+   */
+  allowRequest(): boolean {
+    switch (this.state) {
+    case "closed":
+      return true;
+    case "open":
+      return false;
+    case "half-open":
+      if (this.probeInFlight) return false;
+      this.probeInFlight = true;
+      return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.probeInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.probeInFlight = false;
+  }
+}
+
+/**
+ * One breaker per provider, shared by every callable in the instance
+ */
+export class CircuitBreakers {
+  private readonly breakers = new Map<ProviderName, CircuitBreaker>();
+
+  constructor(private readonly options: CircuitBreakerOptions = {}) {}
+
+  for(provider: ProviderName): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+}
+
+export interface FailoverOptions {
+  /** Per-attempt timeout; a timed out attempt counts as a retryable failure */
+  timeoutMs?: number;
+  /**
+   * Epoch ms by which every generation must have settled, e.g. the function
+   * timeout less time to respond. Attempts share what is left of it.
+   */
+  deadline?: number;
+  now?: () => number;
+}
+
+/**
+ * Rejects with a retryable ProviderError if the attempt takes too long,
+ * calling onTimeout first so the attempt can be cancelled
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  provider: ProviderName,
+  onTimeout: () => void
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout();
+      reject(new ProviderError(`${provider} timed out after ${timeoutMs}ms`, provider, null, true));
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * LLMProvider that fails over from a primary to an optional secondary provider.
+ * Results carry the provider that actually answered and, after a failover,
+ * the provider that was skipped. A timed out attempt is aborted, and any
+ * text it streams afterwards is dropped.
+ */
+export class FailoverProvider implements LLMProvider {
+  private readonly timeoutMs: number;
+  private readonly deadline: number | undefined;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly primary: LLMProvider,
+    private readonly secondary: LLMProvider | null,
+    private readonly breakers: CircuitBreakers,
+    options: FailoverOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS;
+    this.deadline = options.deadline;
+    this.now = options.now ?? Date.now;
+  }
+
+  get name(): ProviderName {
+    return this.primary.name;
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const candidates = this.secondary ? [this.primary, this.secondary] : [this.primary];
+    let lastError: ProviderError | null = null;
+
+    for (const [index, provider] of candidates.entries()) {
+      const remainingMs = this.deadline === undefined ? Infinity : this.deadline - this.now();
+      if (remainingMs <= 0) {
+        console.warn(`[failover] Deadline reached, not trying ${provider.name}`);
+        lastError = new ProviderError(`${provider.name} not tried: deadline reached`, provider.name, null, true);
+        break;
+      }
+
+      const breaker = this.breakers.for(provider.name);
+      if (!breaker.allowRequest()) {
+        console.warn(`[failover] Circuit open for ${provider.name}, skipping`);
+        lastError = new ProviderError(`${provider.name} circuit open`, provider.name, null, true);
+        continue;
+      }
+
+      // Split what is left of the deadline with the providers still to try
+      const attemptsLeft = 1 + candidates.slice(index + 1)
+        .filter((candidate) => this.breakers.for(candidate.name).state !== "open").length;
+      const timeoutMs = Math.min(this.timeoutMs, Math.floor(remainingMs / attemptsLeft));
+
+      // Once text has been streamed to the caller, another provider's answer can't be spliced in
+      let streamed = false;
+      let timedOut = false;
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      if (request.signal?.aborted) abort();
+      request.signal?.addEventListener("abort", abort);
+      const attempt: GenerationRequest = {
+        ...request,
+        signal: controller.signal,
+        onText: request.onText ?
+          (delta) => {
+            // A timed out attempt may still deliver text before the abort lands
+            if (timedOut) return;
+            streamed = true;
+            request.onText!(delta);
+          } :
+          undefined,
+      };
+
+      try {
+        const result = await withTimeout(provider.generate(attempt), timeoutMs, provider.name, () => {
+          timedOut = true;
+          controller.abort();
+        });
+        breaker.recordSuccess();
+        return provider === this.primary ? result : { ...result, failoverFrom: this.primary.name };
+      } catch (error) {
+        if (streamed) {
+          breaker.recordFailure();
+          throw error;
+        }
+        if (!(error instanceof ProviderError) || !error.retryable || request.signal?.aborted) {
+          // Bad or cancelled requests say nothing about provider health and would fail anywhere
+          breaker.recordSuccess();
+          throw error;
+        }
+        breaker.recordFailure();
+        console.warn(`[failover] ${provider.name} failed (${error.message}), state: ${breaker.state}`);
+        lastError = error;
+      } finally {
+        request.signal?.removeEventListener("abort", abort);
+      }
+    }
+
+    throw lastError!;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Gemini Provider
+ *
+ * Google Gemini via @google/genai, with native Google Search grounding.
+ */
+
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { extractTextFromGeminiResponse } from "../utils/gemini-helpers";
+import {
+  LLMProvider,
+  GenerationRequest,
+  GenerationResult,
+  GroundingData,
+  ProviderError,
+  isRetryableStatus,
+} from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+/** The subset of the GoogleGenAI client the provider uses (injectable for tests) */
+export interface GeminiClient {
+  models: {
+    generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+    /** Used when the request asks for streamed text */
+    generateContentStream?(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  };
+}
+
+/**
+ * Wraps an SDK failure in a ProviderError, classifying it by HTTP status
+ */
+function toProviderError(error: unknown): ProviderError {
+  const status = typeof (error as { status?: unknown }).status === "number" ?
+    (error as { status: number }).status :
+    null;
+  return new ProviderError(
+    `Gemini API error: ${error instanceof Error ? error.message : String(error)}`,
+    "gemini",
+    status,
+    isRetryableStatus(status)
+  );
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+
+  constructor(
+    private readonly client: GeminiClient,
+    readonly model: string = DEFAULT_GEMINI_MODEL
+  ) {}
+
+  static fromApiKey(apiKey: string, model?: string): GeminiProvider {
+    return new GeminiProvider(new GoogleGenAI({ apiKey }), model);
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const parts: Array<Record<string, unknown>> = [{ text: request.prompt }];
+    if (request.image) {
+      parts.push({ inlineData: { mimeType: request.image.mimeType, data: request.image.data } });
+    }
+
+    const params: GenerateContentParameters = {
+      model: this.model,
+      contents: [{ role: "user", parts }],
+      config: {
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.signal ? { abortSignal: request.signal } : {}),
+        ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+        // Note: Cannot use responseMimeType with tools, so JSON mode only applies without search
+        ...(request.useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+        ...(request.jsonOutput && !request.useSearch ? { responseMimeType: "application/json" } : {}),
+      },
+    };
+
+    let text: string;
+    let response: GenerateContentResponse;
+    try {
+      if (request.onText && this.client.models.generateContentStream) {
+        ({ text, response } = await this.stream(params, request.onText));
+      } else {
+        response = await this.client.models.generateContent(params);
+        text = extractTextFromGeminiResponse(response);
+      }
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    const candidate = response.candidates?.[0];
+    // Searched requests always report grounding (possibly empty) so callers can flag missing sources
+    const grounding = (candidate?.groundingMetadata ?? (request.useSearch ? {} : null)) as GroundingData | null;
+    const usage = response.usageMetadata;
+
+    return {
+      provider: "gemini",
+      model: this.model,
+      text,
+      finishReason: candidate?.finishReason ?? "unknown",
+      usage: usage ? {
+        inputTokens: usage.promptTokenCount ?? 0,
+        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        totalTokens: usage.totalTokenCount ?? 0,
+        searchQueries: request.useSearch ? grounding?.webSearchQueries?.length ?? 0 : 0,
+      } : null,
+      grounding,
+    };
+  }
+
+  /**
+   * Streams a generation, passing each text delta on as it arrives.
+   * Finish reason, grounding and usage arrive on the last chunks, so they
+   * are collected into a single response for the caller.
+   */
+  private async stream(
+    params: GenerateContentParameters,
+    onText: (delta: string) => void
+  ): Promise<{ text: string; response: GenerateContentResponse }> {
+    const chunks = await this.client.models.generateContentStream!(params);
+    let text = "";
+    let finishReason: unknown;
+    let groundingMetadata: unknown;
+    let usageMetadata: GenerateContentResponse["usageMetadata"];
+    for await (const chunk of chunks) {
+      const delta = extractTextFromGeminiResponse(chunk);
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      const candidate = chunk.candidates?.[0];
+      finishReason = candidate?.finishReason ?? finishReason;
+      groundingMetadata = candidate?.groundingMetadata ?? groundingMetadata;
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+    }
+    const response = {
+      candidates: [{ finishReason, groundingMetadata }],
+      usageMetadata,
+    } as GenerateContentResponse;
+    return { text, response };
+  }
+}
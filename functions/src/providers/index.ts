@@ -0,0 +1,39 @@
+/**
+ * Provider registry
+ *
+ * Adding a provider means implementing LLMProvider and registering it here;
+ * callables pick providers by name.
+ */
+
+import { GeminiProvider } from "./gemini";
+import { OpenAIProvider } from "./openai";
+import { LLMProvider, ProviderName } from "./types";
+
+export * from "./types";
+export { GeminiProvider, GeminiClient, DEFAULT_GEMINI_MODEL } from "./gemini";
+export {
+  FailoverProvider,
+  CircuitBreaker,
+  CircuitBreakers,
+  CircuitState,
+  DEFAULT_PROVIDER_TIMEOUT_MS,
+} from "./failover";
+export {
+  repairGeneration,
+  RepairOutcome,
+  RepairReason,
+  DEFAULT_MAX_REPAIR_RETRIES,
+} from "./self-repair";
+export { OpenAIProvider, DEFAULT_OPENAI_MODEL, DEFAULT_OPENAI_SEARCH_MODEL } from "./openai";
+
+/**
+ * Creates a provider by name with its API key (and optional model override)
+ */
+export function createProvider(name: ProviderName, apiKey: string, model?: string): LLMProvider {
+  switch (name) {
+  case "gemini":
+    return GeminiProvider.fromApiKey(apiKey, model);
+  case "openai":
+    return new OpenAIProvider(apiKey, { model });
+  }
+}
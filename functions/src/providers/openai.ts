@@ -0,0 +1,146 @@
+/**
+ * OpenAI Provider
+ *
+ * OpenAI Chat Completions. Search grounding uses the dedicated search model,
+ * which accepts neither JSON response_format nor images; requests with an
+ * image use the vision model without search.
+ */
+
+import {
+  LLMProvider,
+  GenerationRequest,
+  GenerationResult,
+  FinishReason,
+  ProviderError,
+  isRetryableStatus,
+} from "./types";
+
+export const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o";
+export const DEFAULT_OPENAI_SEARCH_MODEL = "gpt-4o-search-preview";
+
+// OpenAI response types
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface OpenAIResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+/** Minimal fetch signature (injectable for tests) */
+export type FetchLike = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string; signal?: AbortSignal }
+) => Promise<{ ok: boolean; status: number; text(): Promise<string>; json(): Promise<unknown> }>;
+
+export interface OpenAIProviderOptions {
+  model?: string;
+  searchModel?: string;
+  fetch?: FetchLike;
+}
+
+const FINISH_REASONS: Record<string, FinishReason> = {
+  stop: "STOP",
+  length: "MAX_TOKENS",
+  content_filter: "SAFETY",
+};
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  private readonly model: string;
+  private readonly searchModel: string;
+  private readonly fetch: FetchLike;
+
+  constructor(private readonly apiKey: string, options: OpenAIProviderOptions = {}) {
+    this.model = options.model ?? DEFAULT_OPENAI_MODEL;
+    this.searchModel = options.searchModel ?? DEFAULT_OPENAI_SEARCH_MODEL;
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async generate(request: GenerationRequest): Promise<GenerationResult> {
+    const useSearch = request.useSearch === true && !request.image;
+    if (request.useSearch && request.image) {
+      console.warn("[openai] Search model does not accept images; answering without search");
+    }
+    const model = useSearch ? this.searchModel : this.model;
+
+    const userContent = request.image ?
+      [
+        { type: "text", text: request.prompt },
+        {
+          type: "image_url",
+          image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` },
+        },
+      ] :
+      request.prompt;
+
+    const messages: Array<{ role: string; content: unknown }> = [];
+    if (request.systemInstruction) {
+      messages.push({ role: "system", content: request.systemInstruction });
+    }
+    messages.push({ role: "user", content: userContent });
+
+    let response;
+    try {
+      response = await this.fetch(OPENAI_API_URL, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: request.maxOutputTokens,
+          ...(request.jsonOutput && !useSearch ? { response_format: { type: "json_object" } } : {}),
+          messages,
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw new ProviderError(`OpenAI request failed: ${error}`, "openai", null, true);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(
+        `OpenAI API error: ${response.status} - ${errorText}`,
+        "openai",
+        response.status,
+        isRetryableStatus(response.status)
+      );
+    }
+
+    const result = await response.json() as OpenAIResponse;
+    const choice = result.choices?.[0];
+
+    return {
+      provider: "openai",
+      model: result.model ?? model,
+      text: choice?.message?.content ?? "",
+      finishReason: FINISH_REASONS[choice?.finish_reason] ?? choice?.finish_reason ?? "unknown",
+      usage: result.usage ? {
+        inputTokens: result.usage.prompt_tokens,
+        outputTokens: result.usage.completion_tokens,
+        totalTokens: result.usage.total_tokens,
+        // Search models bill a flat fee per call
+        searchQueries: useSearch ? 1 : 0,
+      } : null,
+      grounding: null,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Self-Repair for Malformed or Truncated Model JSON
+ *
+ * Bounded recovery after a generation whose text cannot be used:
+ * - truncated (MAX_TOKENS): the output budget is doubled, up to a ceiling,
+ *   and the model continues from where it stopped; an empty truncated
+ *   response (thinking used the whole budget) is simply re-run
+ * - unparseable, schema-violating or in the wrong language: the model is
+ *   re-asked with the error and its broken output
+ *
+ * Retries never re-run search grounding and are not streamed; the first
+ * grounding seen is kept. Continuations are requested as plain text, since
+ * JSON mode would make the model start a fresh object that cannot be
+ * appended to the partial one.
+ */
+
+import { SchemaValidationError } from "../schemas";
+import { LanguageMismatchError } from "../utils/review-language";
+import { GenerationRequest, GenerationResult, LLMProvider } from "./types";
+
+export const DEFAULT_MAX_REPAIR_RETRIES = 2;
+export const DEFAULT_MAX_OUTPUT_TOKENS_CEILING = 8192;
+
+export type RepairReason = "max-tokens" | "parse-error" | "schema-violation" | "wrong-language";
+
+export interface RepairOptions {
+  /** Retries allowed on top of the first generation */
+  maxRetries?: number;
+  /** Output budget never raised above this */
+  maxOutputTokensCeiling?: number;
+  /** Called with every retry's result, e.g. to meter usage */
+  onRetry?: (result: GenerationResult, reason: RepairReason) => Promise<void>;
+}
+
+export interface RepairOutcome<T> {
+  /** Last generation; text is the full text when a truncated response was continued */
+  result: GenerationResult;
+  /** Parsed value, or null if the text is empty or still invalid */
+  value: T | null;
+  /**
+   * When value is null: the last parse error, or if there was none (e.g. a
+   * continuation failed) the upstream error of the failed retry
+   */
+  error: unknown;
+  /** Reason for each retry, in order */
+  retries: RepairReason[];
+}
+
+/**
+ * Prompt asking the model to continue a response cut off by the output limit
+ */
+export function continuationPrompt(prompt: string, partial: string): string {
+  return `${prompt}
+
+---
+Your previous response was cut off by the output limit. This is what you wrote so far:
+
+${partial}
+
+Continue exactly where it stopped. Output only the remaining text, without repeating anything.`;
+}
+
+/**
+ * Prompt asking the model to fix output that failed to parse or validate
+ */
+export function repairPrompt(prompt: string, broken: string, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return `${prompt}
+
+---
+Your previous response could not be used: ${message}
+
+Previous response:
+${broken}
+
+Return ONLY the corrected JSON object in the required format. No other text.`;
+}
+
+function repairReasonFor(error: unknown): RepairReason {
+  if (error instanceof SchemaValidationError) return "schema-violation";
+  return error instanceof LanguageMismatchError ? "wrong-language" : "parse-error";
+}
+
+/**
+ * Parses a generation's text, retrying within the bounds above when it is
+ * truncated or invalid. A retry that fails upstream ends the loop with the
+ * last usable outcome rather than throwing.
+ *
+ * @param request - Request that produced `first`
+ * @param first - Result of the first generation
+ * @param parse - Parses and validates text, throwing on invalid output
+ */
+export async function repairGeneration<T>(
+  provider: LLMProvider,
+  request: GenerationRequest,
+  first: GenerationResult,
+  parse: (text: string) => T,
+  options: RepairOptions = {}
+): Promise<RepairOutcome<T>> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_REPAIR_RETRIES;
+  const ceiling = Math.max(options.maxOutputTokensCeiling ?? DEFAULT_MAX_OUTPUT_TOKENS_CEILING, request.maxOutputTokens);
+  const retries: RepairReason[] = [];
+  const grounding = first.grounding;
+  let budget = request.maxOutputTokens;
+  let result = first;
+  const retryBase: GenerationRequest = { ...request, onText: undefined, useSearch: false };
+  let lastError: unknown = null;
+
+  for (;;) {
+    const text = result.text;
+    const canRetry = retries.length < maxRetries;
+    let reason: RepairReason;
+    let next: GenerationRequest;
+
+    if (canRetry && result.finishReason === "MAX_TOKENS" && budget < ceiling) {
+      reason = "max-tokens";
+      budget = Math.min(budget * 2, ceiling);
+      next = text.trim() ?
+        {
+          ...retryBase,
+          prompt: continuationPrompt(request.prompt, text),
+          maxOutputTokens: budget,
+          jsonOutput: false,
+        } :
+        { ...retryBase, maxOutputTokens: budget };
+    } else {
+      if (!text.trim()) {
+        return { result, value: null, error: lastError, retries };
+      }
+      try {
+        return { result, value: parse(text), error: null, retries };
+      } catch (error) {
+        lastError = error;
+        if (!canRetry) {
+          return { result, value: null, error, retries };
+        }
+        reason = repairReasonFor(error);
+        next = { ...retryBase, prompt: repairPrompt(request.prompt, text, error), maxOutputTokens: budget };
+      }
+    }
+
+    let retry: GenerationResult;
+    try {
+      retry = await provider.generate(next);
+    } catch (error) {
+      console.error(`[selfRepair] ${reason} retry failed upstream: ${error}`);
+      return { result, value: null, error: lastError ?? error, retries };
+    }
+    retries.push(reason);
+    await options.onRetry?.(retry, reason);
+
+    // A continuation is appended to the truncated text it continues
+    const continued = reason === "max-tokens" && text.trim();
+    result = {
+      ...retry,
+      text: continued ? text + retry.text : retry.text,
+      grounding: grounding ?? retry.grounding,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Common contract for the model providers behind the callables. A provider
+ * turns one generation request (text, optional image, optional search
+ * grounding) into text plus normalized finish reason and usage, so callables
+ * never deal with provider-specific request or response shapes.
+ */
+
+import type { GroundingChunk, GroundingSupport } from "../utils/gemini-helpers";
+
+export type ProviderName = "openai" | "gemini";
+
+export interface GenerationRequest {
+  /** User message text */
+  prompt: string;
+  /** System-level instruction, if the caller separates it from the prompt */
+  systemInstruction?: string;
+  /** Inline image for multimodal generation */
+  image?: { data: string; mimeType: string };
+  /** Ground the response with web search */
+  useSearch?: boolean;
+  maxOutputTokens: number;
+  /** Request JSON output where the provider supports it alongside the other options */
+  jsonOutput?: boolean;
+  /**
+   * Receives text deltas as they are generated. Providers that cannot stream
+   * ignore it; the result always carries the full text.
+   */
+  onText?: (delta: string) => void;
+  /** Cancels the upstream call; the provider then rejects with a ProviderError */
+  signal?: AbortSignal;
+}
+
+export interface UsageReport {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Web searches billed for grounding (0 when search was not used) */
+  searchQueries: number;
+}
+
+/** Search grounding metadata (Gemini shape; other providers map into it) */
+export interface GroundingData {
+  webSearchQueries?: string[];
+  groundingChunks?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
+  searchEntryPoint?: { renderedContent?: string };
+}
+
+/**
+ * Normalized finish reasons. Providers map their own values onto these;
+ * anything unrecognized is passed through unchanged.
+ */
+export type FinishReason = "STOP" | "MAX_TOKENS" | "SAFETY" | "unknown" | string;
+
+export interface GenerationResult {
+  provider: ProviderName;
+  model: string;
+  text: string;
+  finishReason: FinishReason;
+  usage: UsageReport | null;
+  grounding: GroundingData | null;
+  /** Set when the primary provider failed and this result came from the secondary */
+  failoverFrom?: ProviderName;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  generate(request: GenerationRequest): Promise<GenerationResult>;
+}
+
+/**
+ * Error raised when the upstream provider call fails.
+ * `retryable` marks transient failures (rate limits, 5xx, timeouts, network).
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ProviderName,
+    readonly status: number | null,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/**
+ * Returns true for HTTP statuses worth retrying (possibly elsewhere)
+ */
+export function isRetryableStatus(status: number | null): boolean {
+  if (status === null) return true; // network failure or timeout
+  return status === 408 || status === 429 || status >= 500;
+}
@@ -0,0 +1,154 @@
+/**
+ * Identification Response Schemas
+ *
+ * Mirror the output formats in the identification and search-finalization
+ * prompts, and the shapes the iOS client decodes (SinglePromptResponses.swift).
+ */
+
+import { MAX_BATCH_ALBUMS } from "../prompts/batch-identification";
+import { ObjectSchema, Schema, VariantSchema } from "./validation";
+
+const CONFIDENCE_LEVELS = ["high", "medium"] as const;
+const TEXT_CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+
+const OBSERVATION_FIELDS: ObjectSchema["fields"] = {
+  extractedText: { type: "string" },
+  albumDescription: { type: "string", minLength: 1 },
+  textConfidence: { type: "string", enum: TEXT_CONFIDENCE_LEVELS },
+  labelLogoVisible: { type: "boolean" },
+  visuallyDistinctive: { type: "boolean" },
+};
+
+const OBSERVATION_SCHEMA: Schema = {
+  type: "object",
+  fields: {
+    ...OBSERVATION_FIELDS,
+    additionalDetails: { type: "string", optional: true, nullable: true },
+  },
+};
+
+const IDENTIFIED_FIELDS: ObjectSchema["fields"] = {
+  success: { type: "boolean", equals: true },
+  artistName: { type: "string", minLength: 1 },
+  albumTitle: { type: "string", minLength: 1 },
+  releaseYear: { type: "string" },
+  genres: { type: "array", items: { type: "string", minLength: 1 } },
+  recordLabel: { type: "string" },
+  confidence: { type: "string", enum: CONFIDENCE_LEVELS },
+  rationale: { type: "string", minLength: 1 },
+};
+
+/** Album identified, directly or after search */
+const IDENTIFIED_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    ...IDENTIFIED_FIELDS,
+    observation: OBSERVATION_SCHEMA,
+  },
+};
+
+/** Identification needs a search-finalization call */
+const SEARCH_REQUEST_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    success: { type: "boolean", equals: false },
+    needSearch: { type: "boolean", equals: true },
+    searchRequest: {
+      type: "object",
+      fields: {
+        strategy: { type: "string", enum: ["metadata", "visual"] },
+        query: { type: "string", minLength: 1 },
+        reason: { type: "string", minLength: 1 },
+        observation: { type: "object", fields: OBSERVATION_FIELDS },
+      },
+    },
+  },
+};
+
+/** Album could not be identified */
+const UNRESOLVED_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    success: { type: "boolean", equals: false },
+    needSearch: { type: "boolean", equals: false },
+    errorMessage: { type: "string", minLength: 1 },
+  },
+};
+
+function isSuccess(value: Record<string, unknown>): boolean {
+  return value.success === true || value.success === "true";
+}
+
+/** ID Call 1 output: identified, search request, or unresolved */
+export const IDENTIFICATION_SCHEMA: VariantSchema = {
+  type: "variant",
+  select(value) {
+    if (isSuccess(value)) return "identified";
+    return value.needSearch === true || value.needSearch === "true" ? "searchRequest" : "unresolved";
+  },
+  variants: {
+    identified: IDENTIFIED_SCHEMA,
+    searchRequest: SEARCH_REQUEST_SCHEMA,
+    unresolved: UNRESOLVED_SCHEMA,
+  },
+};
+
+/** ID Call 2 output: identified or unresolved (no further searches) */
+export const SEARCH_FINALIZATION_SCHEMA: VariantSchema = {
+  type: "variant",
+  select: (value) => isSuccess(value) ? "identified" : "unresolved",
+  variants: {
+    identified: IDENTIFIED_SCHEMA,
+    unresolved: UNRESOLVED_SCHEMA,
+  },
+};
+
+/** Normalized image coordinates (0-1), origin top-left */
+const BOUNDING_BOX_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    x: { type: "number", min: 0, max: 1 },
+    y: { type: "number", min: 0, max: 1 },
+    width: { type: "number", min: 0, max: 1 },
+    height: { type: "number", min: 0, max: 1 },
+  },
+};
+
+/** One album in a batch: identified fields without observations, since no search follows */
+const BATCH_IDENTIFIED_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    ...IDENTIFIED_FIELDS,
+    confidence: { type: "string", enum: TEXT_CONFIDENCE_LEVELS },
+    boundingBox: BOUNDING_BOX_SCHEMA,
+  },
+};
+
+const BATCH_UNRESOLVED_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    success: { type: "boolean", equals: false },
+    confidence: { type: "string", enum: ["low"] },
+    errorMessage: { type: "string", minLength: 1 },
+    boundingBox: BOUNDING_BOX_SCHEMA,
+  },
+};
+
+/** Batch output: every album found in the photo, identified or not */
+export const BATCH_IDENTIFICATION_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    albums: {
+      type: "array",
+      maxItems: MAX_BATCH_ALBUMS,
+      items: {
+        type: "variant",
+        select: (value) => isSuccess(value) ? "identified" : "unresolved",
+        variants: {
+          identified: BATCH_IDENTIFIED_SCHEMA,
+          unresolved: BATCH_UNRESOLVED_SCHEMA,
+        },
+      },
+    },
+  },
+};
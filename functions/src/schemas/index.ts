@@ -0,0 +1,9 @@
+/**
+ * Response Schemas
+ *
+ * Declarative schemas for every model payload, shared by production code and tests.
+ */
+
+export * from "./validation";
+export { BATCH_IDENTIFICATION_SCHEMA, IDENTIFICATION_SCHEMA, SEARCH_FINALIZATION_SCHEMA } from "./identification";
+export { REVIEW_SCHEMA, ReviewResponse } from "./review";
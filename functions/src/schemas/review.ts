@@ -0,0 +1,49 @@
+/**
+ * Review Response Schema
+ *
+ * Mirrors the "Required Output Structure" of the review prompt.
+ */
+
+import {
+  RECOMMENDATION_LABELS,
+  RecommendationTierNumber,
+  resolveRecommendation,
+} from "../utils/recommendation-tiers";
+import type { ReviewSource } from "../utils/review-sources";
+import type { SourceDiversity } from "../utils/source-policy";
+import { ObjectSchema } from "./validation";
+
+export interface ReviewResponse {
+  context_summary: string;
+  context_bullets: string[];
+  rating: number;
+  /** Canonical label (see recommendation-tiers.ts) */
+  recommendation: string;
+  /** Tier of the recommendation, 1 (best) to 8; set by the server, not the model */
+  recommendation_tier?: RecommendationTierNumber;
+  /** Recommendation label translated for display; localized reviews only */
+  recommendation_display?: string;
+  key_tracks: string[];
+  /** Grounding sources with the bullets citing them; set by the server, not the model */
+  sources?: ReviewSource[];
+  /** Diversity of the sources, null without search grounding; set by the server */
+  source_diversity?: SourceDiversity | null;
+  [key: string]: unknown; // Allow additional fields
+}
+
+export const REVIEW_SCHEMA: ObjectSchema = {
+  type: "object",
+  fields: {
+    context_summary: { type: "string", minLength: 1 },
+    context_bullets: { type: "array", items: { type: "string", minLength: 1 }, minItems: 3, maxItems: 5 },
+    rating: { type: "number", min: 0, max: 10 },
+    recommendation: {
+      type: "string",
+      enum: RECOMMENDATION_LABELS,
+      // Near misses ("Cult Classic", "Crowd Favourite") map to the closest label
+      canonicalize: (value) => resolveRecommendation(value)?.label ?? null,
+    },
+    key_tracks: { type: "array", items: { type: "string", minLength: 1 } },
+    recommendation_display: { type: "string", minLength: 1, optional: true },
+  },
+};
@@ -0,0 +1,271 @@
+/**
+ * Declarative Schema Validation
+ *
+ * A small validator for model output. Schemas describe the payload the
+ * prompt asks for; validation collects every violation (not just the first)
+ * and applies a few safe coercions, each of which is reported:
+ * - numeric strings to numbers ("8.5" -> 8.5)
+ * - numbers to strings (1997 -> "1997")
+ * - "true"/"false" to booleans
+ * - enum values matched ignoring case, spacing and curly quotes, or by the
+ *   schema's own canonicalize function (e.g. fuzzy label matching)
+ *
+ * Fields not named in an object schema are passed through unchanged.
+ */
+
+interface BaseSchema {
+  /** Field may be absent */
+  optional?: boolean;
+  /** Field may be null */
+  nullable?: boolean;
+}
+
+export interface StringSchema extends BaseSchema {
+  type: "string";
+  minLength?: number;
+  maxLength?: number;
+  enum?: readonly string[];
+  /** Maps a value outside the enum to an enum value, or null if there is none */
+  canonicalize?: (value: string) => string | null;
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: "number";
+  min?: number;
+  max?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: "boolean";
+  /** Only this value is accepted */
+  equals?: boolean;
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: "array";
+  items: Schema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: "object";
+  fields: Record<string, Schema>;
+}
+
+/**
+ * One of several object shapes, chosen by inspecting the value
+ * (e.g. a success payload vs. an error payload)
+ */
+export interface VariantSchema extends BaseSchema {
+  type: "variant";
+  select(value: Record<string, unknown>): string;
+  variants: Record<string, ObjectSchema>;
+}
+
+export type Schema = StringSchema | NumberSchema | BooleanSchema | ArraySchema | ObjectSchema | VariantSchema;
+
+export interface SchemaViolation {
+  /** Dotted path to the offending field, e.g. "context_bullets[2]" */
+  path: string;
+  message: string;
+}
+
+export interface SchemaResult {
+  /** Input with coercions applied */
+  value: unknown;
+  violations: SchemaViolation[];
+  /** Human-readable description of each coercion applied */
+  coercions: string[];
+}
+
+/**
+ * Thrown when a payload violates its schema; carries every violation
+ */
+export class SchemaValidationError extends Error {
+  constructor(readonly schemaName: string, readonly violations: SchemaViolation[]) {
+    super(`Invalid ${schemaName}: ${formatViolations(violations)}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+/**
+ * One-line summary of violations, for logs and error messages
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map((violation) => `${violation.path || "(root)"} ${violation.message}`).join("; ");
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function normalizeEnumValue(value: string): string {
+  return value.replace(/[\u2018\u2019]/g, "'").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+class Validator {
+  readonly violations: SchemaViolation[] = [];
+  readonly coercions: string[] = [];
+
+  validate(schema: Schema, value: unknown, path: string): unknown {
+    if (value === null && schema.nullable) return value;
+    switch (schema.type) {
+    case "string":
+      return this.string(schema, value, path);
+    case "number":
+      return this.number(schema, value, path);
+    case "boolean":
+      return this.boolean(schema, value, path);
+    case "array":
+      return this.array(schema, value, path);
+    case "object":
+      return this.object(schema, value, path);
+    case "variant":
+      return this.variant(schema, value, path);
+    }
+  }
+
+  private fail(path: string, message: string): void {
+    this.violations.push({ path, message });
+  }
+
+  private coerce(path: string, from: unknown, to: unknown): void {
+    this.coercions.push(`${path}: ${JSON.stringify(from)} -> ${JSON.stringify(to)}`);
+  }
+
+  private string(schema: StringSchema, value: unknown, path: string): unknown {
+    let result = value;
+    if (typeof result === "number" && Number.isFinite(result)) {
+      result = String(result);
+      this.coerce(path, value, result);
+    }
+    if (typeof result !== "string") {
+      this.fail(path, `must be a string (got ${typeName(value)})`);
+      return value;
+    }
+    if (schema.enum && !schema.enum.includes(result)) {
+      const normalized = normalizeEnumValue(result);
+      const match = schema.enum.find((option) => normalizeEnumValue(option) === normalized) ??
+        schema.canonicalize?.(result) ?? undefined;
+      if (match === undefined || !schema.enum.includes(match)) {
+        this.fail(path, `must be one of the allowed values (got ${JSON.stringify(result)})`);
+        return result;
+      }
+      this.coerce(path, result, match);
+      result = match;
+    }
+    const length = (result as string).trim().length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      this.fail(path, schema.minLength === 1 ? "must not be empty" : `must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      this.fail(path, `must have at most ${schema.maxLength} characters`);
+    }
+    return result;
+  }
+
+  private number(schema: NumberSchema, value: unknown, path: string): unknown {
+    let result = value;
+    if (typeof result === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(result)) {
+      result = Number(result);
+      this.coerce(path, value, result);
+    }
+    if (typeof result !== "number" || !Number.isFinite(result)) {
+      this.fail(path, `must be a number (got ${typeName(value)})`);
+      return value;
+    }
+    if ((schema.min !== undefined && result < schema.min) || (schema.max !== undefined && result > schema.max)) {
+      this.fail(path, `must be between ${schema.min ?? "-Infinity"} and ${schema.max ?? "Infinity"} (got ${result})`);
+    }
+    return result;
+  }
+
+  private boolean(schema: BooleanSchema, value: unknown, path: string): unknown {
+    let result = value;
+    if (result === "true" || result === "false") {
+      result = result === "true";
+      this.coerce(path, value, result);
+    }
+    if (typeof result !== "boolean") {
+      this.fail(path, `must be a boolean (got ${typeName(value)})`);
+      return value;
+    }
+    if (schema.equals !== undefined && result !== schema.equals) {
+      this.fail(path, `must be ${schema.equals}`);
+    }
+    return result;
+  }
+
+  private array(schema: ArraySchema, value: unknown, path: string): unknown {
+    if (!Array.isArray(value)) {
+      this.fail(path, `must be an array (got ${typeName(value)})`);
+      return value;
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      this.fail(path, `must have at least ${schema.minItems} items (got ${value.length})`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      this.fail(path, `must have at most ${schema.maxItems} items (got ${value.length})`);
+    }
+    return value.map((item, index) => this.validate(schema.items, item, `${path}[${index}]`));
+  }
+
+  private object(schema: ObjectSchema, value: unknown, path: string): unknown {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.fail(path, `must be an object (got ${typeName(value)})`);
+      return value;
+    }
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...input };
+    for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+      const fieldPath = joinPath(path, key);
+      if (input[key] === undefined) {
+        if (!fieldSchema.optional) this.fail(fieldPath, "is required");
+        continue;
+      }
+      result[key] = this.validate(fieldSchema, input[key], fieldPath);
+    }
+    return result;
+  }
+
+  private variant(schema: VariantSchema, value: unknown, path: string): unknown {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.fail(path, `must be an object (got ${typeName(value)})`);
+      return value;
+    }
+    const name = schema.select(value as Record<string, unknown>);
+    return this.object(schema.variants[name], value, path);
+  }
+}
+
+/**
+ * Validates a value against a schema, collecting all violations
+ */
+export function validateSchema(schema: Schema, value: unknown): SchemaResult {
+  const validator = new Validator();
+  const result = validator.validate(schema, value, "");
+  return { value: result, violations: validator.violations, coercions: validator.coercions };
+}
+
+/**
+ * Validates a value and returns it with coercions applied
+ *
+ * @throws SchemaValidationError listing every violation
+ */
+export function assertSchema<T>(schema: Schema, value: unknown, schemaName: string): T {
+  const result = validateSchema(schema, value);
+  if (result.violations.length > 0) {
+    throw new SchemaValidationError(schemaName, result.violations);
+  }
+  if (result.coercions.length > 0) {
+    console.log(`[schemas] Coerced ${schemaName} fields: ${result.coercions.join(", ")}`);
+  }
+  return result.value as T;
+}
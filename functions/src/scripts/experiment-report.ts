@@ -0,0 +1,34 @@
+/**
+ * Experiment Report
+ *
+ * Prints the per-arm metrics table for an experiment, using application
+ * default credentials:
+ *
+ *   npm run experiments:report -- <experimentId> [sinceIsoDate]
+ */
+
+import * as admin from "firebase-admin";
+import { ExperimentLog, formatMetricsTable } from "../utils/experiments";
+
+async function main(): Promise<void> {
+  const [experimentId, since] = process.argv.slice(2);
+  if (!experimentId) {
+    console.error("Usage: npm run experiments:report -- <experimentId> [sinceIsoDate]");
+    process.exit(1);
+  }
+
+  admin.initializeApp();
+  const log = new ExperimentLog(admin.firestore());
+  const metrics = await log.aggregate(experimentId, since ? Date.parse(since) : 0);
+
+  if (metrics.length === 0) {
+    console.log(`No outcomes recorded for "${experimentId}"`);
+    return;
+  }
+  console.log(formatMetricsTable(metrics));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+/**
+ * Usage Report
+ *
+ * Prints daily usage and estimated cost rollups between two UTC days, using
+ * application default credentials:
+ *
+ *   npm run usage:report -- <fromDay> <toDay> [tier]
+ *   npm run usage:report -- 2026-10-12 2026-10-18 ultra
+ */
+
+import * as admin from "firebase-admin";
+import { UsageLedger } from "../utils/usage-ledger";
+
+async function main(): Promise<void> {
+  const [from, to, tier] = process.argv.slice(2);
+  if (!from || !to) {
+    console.error("Usage: npm run usage:report -- <fromDay> <toDay> [tier]");
+    process.exit(1);
+  }
+
+  admin.initializeApp();
+  const ledger = new UsageLedger(admin.firestore());
+  const { rows, totals } = await ledger.queryRollups({ from, to, tier });
+
+  console.log("| Day | Tier | Function | Provider | Calls | Input tokens | Output tokens | Searches | Retries | Cost (USD) |");
+  console.log("|-----|------|----------|----------|-------|--------------|---------------|----------|---------|------------|");
+  for (const row of rows) {
+    console.log(
+      `| ${row.day} | ${row.tier} | ${row.functionName} | ${row.provider} | ${row.calls} | ` +
+      `${row.inputTokens} | ${row.outputTokens} | ${row.searchQueries} | ${row.retries ?? 0} | ${row.costUsd.toFixed(4)} |`
+    );
+  }
+  console.log(
+    `\nTotal: ${totals.calls} calls, ${totals.inputTokens + totals.outputTokens} tokens, ` +
+    `${totals.searchQueries} searches, ${totals.retries} self-repair retries, $${totals.costUsd.toFixed(2)}`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
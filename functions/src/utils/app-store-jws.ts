@@ -0,0 +1,136 @@
+/**
+ * App Store JWS Verification
+ *
+ * Verifies StoreKit 2 signed transactions and App Store Server Notifications v2
+ * payloads locally, without calling Apple. A JWS is trusted when:
+ * - the header algorithm is ES256
+ * - the x5c chain links leaf -> intermediate -> root by signature
+ * - every certificate in the chain is within its validity period
+ * - the chain ends at one of the configured trusted roots (Apple Root CA - G3)
+ * - the leaf and intermediate carry Apple's marker extensions
+ * - the signature over `header.payload` verifies with the leaf key
+ */
+
+import { X509Certificate, verify } from "crypto";
+
+// Apple marker OIDs, DER-encoded (tag 0x06, length, value)
+// 1.2.840.113635.100.6.11.1 - App Store receipt signing leaf
+const APPLE_LEAF_OID = Buffer.from("060a2a864886f76364060b01", "hex");
+// 1.2.840.113635.100.6.2.1 - Apple Worldwide Developer Relations intermediate
+const APPLE_INTERMEDIATE_OID = Buffer.from("060a2a864886f76364060201", "hex");
+
+export class JwsVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JwsVerificationError";
+  }
+}
+
+/** Decoded StoreKit 2 transaction (JWSTransactionDecodedPayload) */
+export interface AppStoreTransaction {
+  transactionId: string;
+  originalTransactionId: string;
+  bundleId: string;
+  productId: string;
+  purchaseDate: number;
+  expiresDate?: number;
+  revocationDate?: number;
+  environment?: string;
+  appAccountToken?: string;
+  [key: string]: unknown;
+}
+
+/** Decoded App Store Server Notification v2 (ResponseBodyV2DecodedPayload) */
+export interface AppStoreNotification {
+  notificationType: string;
+  subtype?: string;
+  notificationUUID: string;
+  data?: {
+    bundleId?: string;
+    environment?: string;
+    signedTransactionInfo?: string;
+    signedRenewalInfo?: string;
+  };
+  [key: string]: unknown;
+}
+
+interface JwsHeader {
+  alg?: string;
+  x5c?: string[];
+}
+
+function decodeSegment<T>(segment: string, label: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new JwsVerificationError(`Malformed JWS ${label}`);
+  }
+}
+
+function assertValidAt(cert: X509Certificate, now: Date): void {
+  if (now < new Date(cert.validFrom) || now > new Date(cert.validTo)) {
+    throw new JwsVerificationError(`Certificate ${cert.subject} is not valid at ${now.toISOString()}`);
+  }
+}
+
+/**
+ * Verifies a JWS signed by the App Store and returns its decoded payload
+ *
+ * @param jws - Compact JWS string (header.payload.signature)
+ * @param trustedRootsPem - PEM-encoded root certificates to anchor the chain
+ * @param now - Time used for certificate validity checks
+ * @throws JwsVerificationError if any check fails
+ */
+export function verifyAppStoreJws<T>(
+  jws: string,
+  trustedRootsPem: string[],
+  now: Date = new Date()
+): T {
+  const segments = typeof jws === "string" ? jws.split(".") : [];
+  if (segments.length !== 3) {
+    throw new JwsVerificationError("JWS must have three segments");
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+
+  const header = decodeSegment<JwsHeader>(headerSegment, "header");
+  if (header.alg !== "ES256") {
+    throw new JwsVerificationError(`Unsupported JWS algorithm: ${header.alg}`);
+  }
+  if (!Array.isArray(header.x5c) || header.x5c.length !== 3) {
+    throw new JwsVerificationError("JWS header must contain a three-certificate x5c chain");
+  }
+
+  let chain: X509Certificate[];
+  try {
+    chain = header.x5c.map((der) => new X509Certificate(Buffer.from(der, "base64")));
+  } catch {
+    throw new JwsVerificationError("JWS x5c contains an invalid certificate");
+  }
+  const [leaf, intermediate, root] = chain;
+
+  const trustedRoots = trustedRootsPem.map((pem) => new X509Certificate(pem));
+  if (!trustedRoots.some((trusted) => trusted.raw.equals(root.raw))) {
+    throw new JwsVerificationError("Certificate chain does not end at a trusted root");
+  }
+
+  if (!leaf.verify(intermediate.publicKey) || !intermediate.verify(root.publicKey)) {
+    throw new JwsVerificationError("Certificate chain signature is invalid");
+  }
+  chain.forEach((cert) => assertValidAt(cert, now));
+
+  if (!leaf.raw.includes(APPLE_LEAF_OID) || !intermediate.raw.includes(APPLE_INTERMEDIATE_OID)) {
+    throw new JwsVerificationError("Certificate chain is missing Apple marker extensions");
+  }
+
+  const signatureValid = verify(
+    "sha256",
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    { key: leaf.publicKey, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signatureSegment, "base64url")
+  );
+  if (!signatureValid) {
+    throw new JwsVerificationError("JWS signature is invalid");
+  }
+
+  return decodeSegment<T>(payloadSegment, "payload");
+}
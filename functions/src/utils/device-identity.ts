@@ -0,0 +1,85 @@
+/**
+ * Device Identity Resolution
+ *
+ * Resolves a per-install identifier for rate limiting, logging and usage
+ * accounting. The App Check app ID is the same on every install of the app,
+ * so it is only used as a last resort.
+ *
+ * Only verified identities are per-device. Precedence (first match wins):
+ * 1. Firebase Auth uid (anonymous Auth), verified by the Functions runtime
+ * 2. App Check app ID (shared by all installs of one app)
+ * 3. "unknown-device"
+ *
+ * A client-sent `installationId` is not verified, so it never keys rate
+ * limits or quotas (a new ID per call would get around both); it is kept
+ * for logs only.
+ *
+ * Shared identities never get per-device treatment: they are rate limited
+ * by a global budget, skip daily scan quotas and per-device usage entries,
+ * and are not assigned to experiments.
+ */
+
+export type DeviceIdentitySource = "auth" | "app-check" | "unknown";
+
+export interface DeviceIdentity {
+  /** Namespaced identifier, e.g. "auth:abc123" or "app:1:123:ios:abc" */
+  id: string;
+  source: DeviceIdentitySource;
+  /** True when the identifier is shared by many installs (not per-device) */
+  shared: boolean;
+  /** Installation ID the client claims, unverified; for logs only */
+  claimedInstallationId?: string;
+}
+
+/** Optional identity fields any callable request may carry */
+export interface ClientIdentityFields {
+  installationId?: string;
+}
+
+/** Minimal request shape needed to resolve an identity */
+export interface IdentityRequest {
+  auth?: { uid: string };
+  app?: { appId: string };
+  data?: unknown;
+}
+
+export const UNKNOWN_DEVICE_ID = "unknown-device";
+
+// Firebase Installation IDs are 22 characters of URL-safe base64 and always
+// start with 0111 in binary, i.e. one of c, d, e or f.
+const FID_PATTERN = /^[cdef][A-Za-z0-9_-]{21}$/;
+
+/**
+ * Returns true if the value looks like a Firebase Installation ID
+ */
+export function isValidInstallationId(value: unknown): value is string {
+  return typeof value === "string" && FID_PATTERN.test(value);
+}
+
+/**
+ * True for identifiers shared by many installs: the App Check app ID and
+ * "unknown-device"
+ */
+export function isSharedDeviceId(id: string): boolean {
+  return id === UNKNOWN_DEVICE_ID || id.startsWith("app:");
+}
+
+/**
+ * Resolves the most specific verified identity available for a request
+ */
+export function resolveDeviceIdentity(request: IdentityRequest): DeviceIdentity {
+  if (request.auth?.uid) {
+    return { id: `auth:${request.auth.uid}`, source: "auth", shared: false };
+  }
+
+  const data = request.data as ClientIdentityFields | undefined;
+  const claimed = data && isValidInstallationId(data.installationId) ?
+    { claimedInstallationId: data.installationId } :
+    {};
+
+  if (request.app?.appId) {
+    return { id: `app:${request.app.appId}`, source: "app-check", shared: true, ...claimed };
+  }
+
+  return { id: UNKNOWN_DEVICE_ID, source: "unknown", shared: true, ...claimed };
+}
@@ -0,0 +1,287 @@
+/**
+ * Subscription Entitlements
+ *
+ * Server-side source of truth for a device's subscription tier and daily scan
+ * quota. Entitlements are written from verified App Store transactions (sent
+ * by the client after purchase) and kept current by App Store Server
+ * Notifications v2.
+ *
+ * Firestore layout:
+ * - entitlements/{originalTransactionId}   one record per subscription
+ * - deviceEntitlements/{deviceId}          device -> originalTransactionId link
+ * - subscriptionDevices/{originalTransactionId}  devices linked to a subscription
+ * - scanQuotas/{deviceId}_{YYYY-MM-DD}     per-device daily scan counter
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import type { AppStoreTransaction } from "./app-store-jws";
+
+export type SubscriptionTier = "free" | "base" | "ultra";
+
+/** How strictly tier checks are applied while clients roll out entitlement sync */
+export type EnforcementMode = "off" | "monitor" | "enforce";
+
+export const PRODUCT_TIERS: Record<string, SubscriptionTier> = {
+  albumscan_base_annual: "base",
+  albumscan_ultra_annual: "ultra",
+};
+
+export const ALLOWED_BUNDLE_IDS = ["jamesschaffer.AlbumScan"];
+
+/** Identification scans allowed per device per UTC day */
+export const DAILY_SCAN_QUOTAS: Record<SubscriptionTier, number> = {
+  free: 5,
+  base: 20,
+  ultra: 100,
+};
+
+/**
+ * Devices one subscription can be linked to. A signed transaction is not
+ * bound to the device that sent it, so without a cap one JWS would unlock
+ * any number of installs.
+ */
+export const MAX_DEVICES_PER_SUBSCRIPTION = 2;
+
+const TIER_RANK: Record<SubscriptionTier, number> = { free: 0, base: 1, ultra: 2 };
+
+export interface EntitlementRecord {
+  originalTransactionId: string;
+  productId: string;
+  bundleId: string;
+  tier: SubscriptionTier;
+  environment: string;
+  expiresAt: number | null;
+  revokedAt: number | null;
+  signedDate: number;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  used: number;
+  limit: number;
+}
+
+export class EntitlementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EntitlementError";
+  }
+}
+
+/**
+ * The subscription is already linked to its maximum number of devices
+ */
+export class DeviceLimitError extends EntitlementError {
+  constructor(readonly originalTransactionId: string, readonly limit: number) {
+    super(`Subscription ${originalTransactionId} is already linked to ${limit} devices`);
+    this.name = "DeviceLimitError";
+  }
+}
+
+/**
+ * The transaction was signed in Apple's sandbox (Xcode, TestFlight) and
+ * this deployment does not accept sandbox purchases
+ */
+export class SandboxTransactionError extends EntitlementError {
+  constructor(readonly originalTransactionId: string) {
+    super(`Sandbox transaction ${originalTransactionId} is not accepted in this environment`);
+    this.name = "SandboxTransactionError";
+  }
+}
+
+export interface TransactionOptions {
+  /** Accept transactions from Apple's sandbox; only for non-production deployments */
+  allowSandbox?: boolean;
+}
+
+/**
+ * Parses an enforcement mode string, defaulting to "monitor"
+ */
+export function parseEnforcementMode(value: string | undefined): EnforcementMode {
+  return value === "off" || value === "enforce" ? value : "monitor";
+}
+
+/**
+ * Builds an entitlement record from a verified transaction
+ *
+ * @throws SandboxTransactionError if the transaction is from the sandbox and sandbox is not allowed
+ * @throws EntitlementError if the bundle or product is not recognized
+ */
+export function entitlementFromTransaction(
+  tx: AppStoreTransaction,
+  options: TransactionOptions = {}
+): EntitlementRecord {
+  const environment = tx.environment ?? "Production";
+  if (environment !== "Production" && !options.allowSandbox) {
+    throw new SandboxTransactionError(tx.originalTransactionId);
+  }
+  if (!ALLOWED_BUNDLE_IDS.includes(tx.bundleId)) {
+    throw new EntitlementError(`Unrecognized bundle ID: ${tx.bundleId}`);
+  }
+  const tier = PRODUCT_TIERS[tx.productId];
+  if (!tier) {
+    throw new EntitlementError(`Unrecognized product ID: ${tx.productId}`);
+  }
+
+  return {
+    originalTransactionId: tx.originalTransactionId,
+    productId: tx.productId,
+    bundleId: tx.bundleId,
+    tier,
+    environment,
+    expiresAt: tx.expiresDate ?? null,
+    revokedAt: tx.revocationDate ?? null,
+    signedDate: typeof tx.signedDate === "number" ? tx.signedDate : tx.purchaseDate,
+  };
+}
+
+/**
+ * Returns the tier an entitlement grants right now (free if expired or revoked)
+ */
+export function effectiveTier(record: EntitlementRecord | undefined, now: number): SubscriptionTier {
+  if (!record || record.revokedAt !== null) return "free";
+  if (record.expiresAt !== null && record.expiresAt <= now) return "free";
+  return record.tier;
+}
+
+/**
+ * Returns true if `tier` includes everything `required` does
+ */
+export function tierSatisfies(tier: SubscriptionTier, required: SubscriptionTier): boolean {
+  return TIER_RANK[tier] >= TIER_RANK[required];
+}
+
+/**
+ * Formats a timestamp as a UTC day key (YYYY-MM-DD)
+ */
+export function utcDayKey(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export interface EntitlementStoreOptions {
+  quotas?: Record<SubscriptionTier, number>;
+  maxDevicesPerSubscription?: number;
+  now?: () => number;
+}
+
+/**
+ * Firestore-backed entitlement and quota store
+ */
+export class EntitlementStore {
+  private readonly quotas: Record<SubscriptionTier, number>;
+  private readonly maxDevices: number;
+  private readonly now: () => number;
+
+  constructor(private readonly db: Firestore, options: EntitlementStoreOptions = {}) {
+    this.quotas = options.quotas ?? DAILY_SCAN_QUOTAS;
+    this.maxDevices = options.maxDevicesPerSubscription ?? MAX_DEVICES_PER_SUBSCRIPTION;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Stores a client-submitted transaction and links it to the device.
+   * Devices already linked can sync again; a device moving to another
+   * subscription frees its slot on the old one.
+   *
+   * @throws DeviceLimitError if the subscription is linked to its maximum number of other devices
+   */
+  async linkTransaction(
+    deviceId: string,
+    tx: AppStoreTransaction,
+    options: TransactionOptions = {}
+  ): Promise<EntitlementRecord> {
+    const { originalTransactionId } = entitlementFromTransaction(tx, options);
+    const linkRef = this.db.collection("deviceEntitlements").doc(encodeURIComponent(deviceId));
+    const devicesRef = this.db.collection("subscriptionDevices").doc(originalTransactionId);
+
+    await this.db.runTransaction(async (t) => {
+      const link = await t.get(linkRef);
+      const previous = link.exists ? link.get("originalTransactionId") as string : undefined;
+      const previousRef = previous && previous !== originalTransactionId ?
+        this.db.collection("subscriptionDevices").doc(previous) :
+        undefined;
+      const devices = await t.get(devicesRef);
+      const previousDevices = previousRef ? await t.get(previousRef) : undefined;
+
+      const deviceIds = devices.exists ? devices.get("deviceIds") as string[] : [];
+      if (!deviceIds.includes(deviceId)) {
+        if (deviceIds.length >= this.maxDevices) {
+          throw new DeviceLimitError(originalTransactionId, this.maxDevices);
+        }
+        t.set(devicesRef, { deviceIds: [...deviceIds, deviceId] });
+      }
+      if (previousRef && previousDevices?.exists) {
+        const remaining = (previousDevices.get("deviceIds") as string[]).filter((id) => id !== deviceId);
+        t.set(previousRef, { deviceIds: remaining });
+      }
+      t.set(linkRef, {
+        deviceId,
+        originalTransactionId,
+        linkedAt: new Date(this.now()),
+      });
+    });
+
+    return this.applyTransaction(tx, options);
+  }
+
+  /**
+   * Stores a transaction, ignoring it if a newer one is already recorded
+   * (notifications can arrive out of order)
+   */
+  async applyTransaction(tx: AppStoreTransaction, options: TransactionOptions = {}): Promise<EntitlementRecord> {
+    const incoming = entitlementFromTransaction(tx, options);
+    const ref = this.db.collection("entitlements").doc(incoming.originalTransactionId);
+
+    return this.db.runTransaction(async (t) => {
+      const snapshot = await t.get(ref);
+      const existing = snapshot.exists ? snapshot.data() as EntitlementRecord : undefined;
+      if (existing && existing.signedDate > incoming.signedDate) {
+        return existing;
+      }
+      t.set(ref, incoming);
+      return incoming;
+    });
+  }
+
+  /**
+   * Resolves the device's current tier
+   */
+  async getTier(deviceId: string): Promise<SubscriptionTier> {
+    const link = await this.db.collection("deviceEntitlements").doc(encodeURIComponent(deviceId)).get();
+    const originalTransactionId = link.exists ? link.get("originalTransactionId") as string : undefined;
+    if (!originalTransactionId) return "free";
+
+    const entitlement = await this.db.collection("entitlements").doc(originalTransactionId).get();
+    return effectiveTier(
+      entitlement.exists ? entitlement.data() as EntitlementRecord : undefined,
+      this.now()
+    );
+  }
+
+  /**
+   * Counts one scan against the device's daily quota for its tier
+   */
+  async consumeDailyScan(deviceId: string, tier: SubscriptionTier): Promise<QuotaDecision> {
+    const now = this.now();
+    const limit = this.quotas[tier];
+    const ref = this.db
+      .collection("scanQuotas")
+      .doc(`${encodeURIComponent(deviceId)}_${utcDayKey(now)}`);
+
+    return this.db.runTransaction(async (t) => {
+      const snapshot = await t.get(ref);
+      const used = snapshot.exists ? (snapshot.get("count") as number) : 0;
+      if (used >= limit) {
+        return { allowed: false, used, limit };
+      }
+      t.set(ref, {
+        deviceId,
+        tier,
+        count: used + 1,
+        // Lets a Firestore TTL policy sweep old counters
+        expiresAt: new Date(now + 2 * 24 * 60 * 60 * 1000),
+      });
+      return { allowed: true, used: used + 1, limit };
+    });
+  }
+}
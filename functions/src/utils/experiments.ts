@@ -0,0 +1,318 @@
+/**
+ * Server-side A/B Experiments
+ *
+ * Installs are bucketed deterministically into experiment arms by hashing
+ * the experiment ID with the device ID, so a device stays in its arm for the
+ * life of the experiment without any stored assignment. An arm can override
+ * the provider, model, prompt version and search policy of a callable.
+ *
+ * Every model call made under an experiment records an outcome (latency,
+ * JSON validity, finish reason, token usage); aggregateOutcomes() turns those
+ * into the per-arm tables described in AB_TESTING.md.
+ */
+
+import { createHash } from "crypto";
+import type { Firestore } from "firebase-admin/firestore";
+import type { ProviderName } from "../providers";
+import { isSharedDeviceId } from "./device-identity";
+
+export const EXPERIMENT_OUTCOME_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+/** "default" keeps each callable's own search behavior */
+export type SearchPolicy = "default" | "always" | "never";
+
+export interface ExperimentArm {
+  name: string;
+  /** Relative share of traffic (weights need not sum to 100) */
+  weight: number;
+  provider?: ProviderName;
+  model?: string;
+  promptVersion?: string;
+  searchPolicy?: SearchPolicy;
+}
+
+export interface Experiment {
+  id: string;
+  /** Callables the experiment applies to */
+  functions: string[];
+  arms: ExperimentArm[];
+  /** Defaults to true; set false to stop assigning without deleting the config */
+  enabled?: boolean;
+}
+
+export interface ArmAssignment {
+  experimentId: string;
+  arm: ExperimentArm;
+}
+
+const PROVIDERS: ProviderName[] = ["openai", "gemini"];
+const SEARCH_POLICIES: SearchPolicy[] = ["default", "always", "never"];
+
+/**
+ * Parses and validates the experiments config (a JSON array)
+ *
+ * @throws Error describing the first invalid entry
+ */
+export function parseExperiments(json: string): Experiment[] {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Experiments config must be a JSON array");
+  }
+
+  return parsed.map((value, index) => {
+    const experiment = value as Experiment;
+    if (typeof experiment?.id !== "string" || experiment.id.length === 0) {
+      throw new Error(`Experiment ${index} is missing an id`);
+    }
+    if (!Array.isArray(experiment.functions) || experiment.functions.length === 0) {
+      throw new Error(`Experiment "${experiment.id}" must list functions`);
+    }
+    if (!Array.isArray(experiment.arms) || experiment.arms.length === 0) {
+      throw new Error(`Experiment "${experiment.id}" must have arms`);
+    }
+    for (const arm of experiment.arms) {
+      if (typeof arm?.name !== "string" || typeof arm.weight !== "number" || arm.weight < 0) {
+        throw new Error(`Experiment "${experiment.id}" has an arm without a name or valid weight`);
+      }
+      if (arm.provider !== undefined && !PROVIDERS.includes(arm.provider)) {
+        throw new Error(`Experiment "${experiment.id}" arm "${arm.name}" has unknown provider`);
+      }
+      if (arm.searchPolicy !== undefined && !SEARCH_POLICIES.includes(arm.searchPolicy)) {
+        throw new Error(`Experiment "${experiment.id}" arm "${arm.name}" has unknown search policy`);
+      }
+    }
+    if (experiment.arms.every((arm) => arm.weight === 0)) {
+      throw new Error(`Experiment "${experiment.id}" has no traffic`);
+    }
+    return experiment;
+  });
+}
+
+/**
+ * Maps a device to a stable point in [0, 1) for an experiment
+ */
+export function bucketPosition(experimentId: string, deviceId: string): number {
+  const digest = createHash("sha256").update(`${experimentId}:${deviceId}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Picks the arm whose share of the weight range contains the device's bucket
+ */
+export function assignArm(experiment: Experiment, deviceId: string): ExperimentArm {
+  const totalWeight = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let target = bucketPosition(experiment.id, deviceId) * totalWeight;
+  for (const arm of experiment.arms) {
+    if (target < arm.weight) return arm;
+    target -= arm.weight;
+  }
+  // Floating point edge: fall back to the last arm with traffic
+  return [...experiment.arms].reverse().find((arm) => arm.weight > 0)!;
+}
+
+/**
+ * Assigns the device to an arm of the first enabled experiment covering the
+ * function. Shared identities stand for many installs that would all land in
+ * one arm, so they are never assigned and get the callable's defaults.
+ */
+export function resolveAssignment(
+  experiments: Experiment[],
+  functionName: string,
+  deviceId: string
+): ArmAssignment | null {
+  if (isSharedDeviceId(deviceId)) return null;
+  const experiment = experiments.find(
+    (candidate) => candidate.enabled !== false && candidate.functions.includes(functionName)
+  );
+  if (!experiment) return null;
+  return { experimentId: experiment.id, arm: assignArm(experiment, deviceId) };
+}
+
+/**
+ * True for an arm that overrides nothing, i.e. serves the callable's defaults
+ */
+export function isDefaultArm(arm: ExperimentArm): boolean {
+  return arm.provider === undefined && arm.model === undefined && arm.promptVersion === undefined &&
+    (arm.searchPolicy === undefined || arm.searchPolicy === "default");
+}
+
+/**
+ * Applies an arm's search policy to a callable's default
+ */
+export function applySearchPolicy(defaultUseSearch: boolean, policy: SearchPolicy | undefined): boolean {
+  switch (policy) {
+  case "always":
+    return true;
+  case "never":
+    return false;
+  default:
+    return defaultUseSearch;
+  }
+}
+
+// ============================================================================
+// Outcomes
+// ============================================================================
+
+export interface ExperimentOutcome {
+  experimentId: string;
+  arm: string;
+  functionName: string;
+  deviceId: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  /** Whether the response parsed and validated as the expected JSON */
+  jsonValid: boolean;
+  /** Normalized finish reason, or "ERROR" when the upstream call failed */
+  finishReason: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Self-repair retries made before the final result (tokens above cover the final call only) */
+  retries: number;
+  /** Reason for each retry, in order */
+  retryReasons: string[];
+  /** Epoch ms */
+  timestamp: number;
+}
+
+export interface ArmMetrics {
+  experimentId: string;
+  functionName: string;
+  arm: string;
+  calls: number;
+  /** Share of calls returning valid JSON (the identification/review success rate) */
+  validJsonRate: number;
+  /** Share of calls where the upstream call failed */
+  errorRate: number;
+  /** Share of calls truncated by the output token limit */
+  maxTokensRate: number;
+  /** Share of calls that needed at least one self-repair retry */
+  retryRate: number;
+  latencyP50Ms: number;
+  latencyP95Ms: number;
+  avgInputTokens: number;
+  avgOutputTokens: number;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+/**
+ * Aggregates outcomes into per-function, per-arm metrics
+ */
+export function aggregateOutcomes(outcomes: ExperimentOutcome[]): ArmMetrics[] {
+  const groups = new Map<string, ExperimentOutcome[]>();
+  for (const outcome of outcomes) {
+    const key = [outcome.experimentId, outcome.functionName, outcome.arm].join("\u0000");
+    const group = groups.get(key);
+    if (group) {
+      group.push(outcome);
+    } else {
+      groups.set(key, [outcome]);
+    }
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      const calls = group.length;
+      const share = (predicate: (outcome: ExperimentOutcome) => boolean) =>
+        group.filter(predicate).length / calls;
+      const average = (field: (outcome: ExperimentOutcome) => number) =>
+        group.reduce((sum, outcome) => sum + field(outcome), 0) / calls;
+      const latencies = group.map((outcome) => outcome.latencyMs).sort((a, b) => a - b);
+
+      return {
+        experimentId: group[0].experimentId,
+        functionName: group[0].functionName,
+        arm: group[0].arm,
+        calls,
+        validJsonRate: share((outcome) => outcome.jsonValid),
+        errorRate: share((outcome) => outcome.finishReason === "ERROR"),
+        maxTokensRate: share((outcome) => outcome.finishReason === "MAX_TOKENS"),
+        // Outcomes recorded before self-repair have no retries field
+        retryRate: share((outcome) => (outcome.retries ?? 0) > 0),
+        latencyP50Ms: percentile(latencies, 50),
+        latencyP95Ms: percentile(latencies, 95),
+        avgInputTokens: average((outcome) => outcome.inputTokens),
+        avgOutputTokens: average((outcome) => outcome.outputTokens),
+      };
+    })
+    .sort((a, b) =>
+      a.experimentId.localeCompare(b.experimentId) ||
+      a.functionName.localeCompare(b.functionName) ||
+      a.arm.localeCompare(b.arm)
+    );
+}
+
+/**
+ * Renders metrics as the markdown table used in AB_TESTING.md
+ */
+export function formatMetricsTable(metrics: ArmMetrics[]): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    "| Function | Arm | Calls | Valid JSON | Errors | MAX_TOKENS | Retried | Latency p50 | Latency p95 | Avg tokens (in/out) |",
+    "|----------|-----|-------|------------|--------|------------|---------|-------------|-------------|---------------------|",
+  ];
+  for (const row of metrics) {
+    lines.push(
+      `| ${row.functionName} | ${row.arm} | ${row.calls} | ${percent(row.validJsonRate)} | ` +
+      `${percent(row.errorRate)} | ${percent(row.maxTokensRate)} | ${percent(row.retryRate)} | ${row.latencyP50Ms}ms | ` +
+      `${row.latencyP95Ms}ms | ${Math.round(row.avgInputTokens)}/${Math.round(row.avgOutputTokens)} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+export interface ExperimentLogOptions {
+  collection?: string;
+  now?: () => number;
+}
+
+/**
+ * Firestore-backed outcome store. Write errors are logged and swallowed so
+ * experiment bookkeeping can never fail a user request.
+ */
+export class ExperimentLog {
+  private readonly collection: string;
+  private readonly now: () => number;
+
+  constructor(private readonly db: Firestore, options: ExperimentLogOptions = {}) {
+    this.collection = options.collection ?? "experimentOutcomes";
+    this.now = options.now ?? Date.now;
+  }
+
+  async record(outcome: ExperimentOutcome): Promise<void> {
+    try {
+      await this.db.collection(this.collection).add({
+        ...outcome,
+        // Field for a Firestore TTL policy
+        expiresAt: new Date(this.now() + EXPERIMENT_OUTCOME_TTL_MS),
+      });
+    } catch (error) {
+      console.error(`[experiments] Outcome write failed for "${outcome.experimentId}": ${error}`);
+    }
+  }
+
+  /**
+   * Loads an experiment's outcomes (optionally since an epoch ms) and aggregates them
+   */
+  async aggregate(experimentId: string, since = 0): Promise<ArmMetrics[]> {
+    // Single-field equality query: needs no composite index
+    const snapshot = await this.db
+      .collection(this.collection)
+      .where("experimentId", "==", experimentId)
+      .get();
+    const outcomes = snapshot.docs
+      .map((doc) => doc.data() as ExperimentOutcome)
+      .filter((outcome) => outcome.timestamp >= since);
+    return aggregateOutcomes(outcomes);
+  }
+}
@@ -10,15 +10,16 @@ export interface GroundingChunk {
   web?: { uri?: string; title?: string };
 }
 
-export interface ReviewResponse {
-  context_summary: string;
-  context_bullets: string[];
-  rating: number;
-  recommendation: string;
-  key_tracks: string[];
-  [key: string]: unknown; // Allow additional fields
+/** A span of the response text and the grounding chunks that back it */
+export interface GroundingSupport {
+  /** Offsets are UTF-8 byte positions in the response text */
+  segment?: { startIndex?: number; endIndex?: number; text?: string };
+  groundingChunkIndices?: number[];
 }
 
+/** Most sources cited after one bullet */
+export const MAX_CITATIONS_PER_BULLET = 2;
+
 /**
  * Strips markdown code fences from Gemini responses.
  * Gemini often wraps JSON in ```json ... ``` blocks.
@@ -51,41 +52,6 @@ export function validateAndNormalizeJson(text: string): string {
   return JSON.stringify(parsed);
 }
 
-/**
- * Validates that a review response has all required fields.
- *
- * @param parsed - Parsed review object
- * @returns true if valid
- * @throws Error if missing required fields
- */
-export function validateReviewFields(parsed: unknown): parsed is ReviewResponse {
-  const obj = parsed as Record<string, unknown>;
-
-  if (
-    !obj.context_summary ||
-    !obj.context_bullets ||
-    obj.rating === undefined ||
-    !obj.recommendation ||
-    !obj.key_tracks
-  ) {
-    throw new Error("Missing required fields in review response");
-  }
-
-  if (!Array.isArray(obj.context_bullets)) {
-    throw new Error("context_bullets must be an array");
-  }
-
-  if (!Array.isArray(obj.key_tracks)) {
-    throw new Error("key_tracks must be an array");
-  }
-
-  if (typeof obj.rating !== "number") {
-    throw new Error("rating must be a number");
-  }
-
-  return true;
-}
-
 /**
  * Extracts unique sources from Gemini grounding chunks.
  * Deduplicates by title and limits to maxSources.
@@ -110,30 +76,95 @@ export function extractUniqueSources(
     .slice(0, maxSources);
 }
 
+/** Lowercased, unescaped and whitespace-collapsed, for comparing JSON text with parsed text */
+function comparableText(value: string): string {
+  return value.replace(/\\(["\\/])/g, "$1").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
 /**
- * Injects source citations into review bullet points.
- * Appends markdown links to bullet points based on grounding sources.
+ * Byte range of a bullet in the raw response text, or null if the text no
+ * longer contains it (e.g. the bullet came from a self-repair retry)
+ */
+function bulletByteRange(groundedText: string, bullet: string): [number, number] | null {
+  const encoded = JSON.stringify(bullet).slice(1, -1);
+  const at = encoded ? groundedText.indexOf(encoded) : -1;
+  if (at < 0) return null;
+  const start = Buffer.byteLength(groundedText.slice(0, at));
+  return [start, start + Buffer.byteLength(encoded)];
+}
+
+/**
+ * Whether a grounding support backs a bullet: its segment overlaps the
+ * bullet's position in the grounded text, or its text appears in the bullet
+ */
+function supportsBullet(support: GroundingSupport, range: [number, number] | null, bullet: string): boolean {
+  const segment = support.segment;
+  if (!segment) return false;
+  if (range && segment.endIndex !== undefined) {
+    const start = segment.startIndex ?? 0;
+    if (start < range[1] && segment.endIndex > range[0]) return true;
+  }
+  const text = segment.text ? comparableText(segment.text) : "";
+  return text.length > 0 && comparableText(bullet).includes(text);
+}
+
+/**
+ * Finds the grounding sources backing each review bullet: the chunks of
+ * every grounding support that covers the bullet's text. Bullets no support
+ * covers get none, so they stay uncited.
+ *
+ * Support offsets refer to the text the grounding came with. If self-repair
+ * replaced that text, bullets it no longer contains are matched by segment
+ * text instead.
  *
  * @param bullets - Array of bullet point strings
- * @param sources - Array of unique grounding chunks
- * @returns New array of bullets with citations appended
+ * @param chunks - Grounding chunks (the sources)
+ * @param supports - Grounding supports (text segments and their chunk indices)
+ * @param groundedText - Raw response text the support offsets refer to
+ * @returns Per bullet, the indices of its chunks that have a URL, in support order
  */
-export function injectCitationsIntoBullets(
+export function citedChunkIndices(
   bullets: string[],
-  sources: GroundingChunk[]
-): string[] {
-  if (sources.length === 0) {
-    return [...bullets];
-  }
+  chunks: GroundingChunk[],
+  supports: GroundingSupport[],
+  groundedText: string
+): number[][] {
+  return bullets.map((bullet) => {
+    const range = bulletByteRange(groundedText, bullet);
+    const cited = new Set<number>();
+    for (const support of supports) {
+      if (!supportsBullet(support, range, bullet)) continue;
+      for (const index of support.groundingChunkIndices ?? []) {
+        if (chunks[index]?.web?.uri) cited.add(index);
+      }
+    }
+    return [...cited];
+  });
+}
 
+/** A source and the bullets (by index) it backs */
+export interface CitedSource {
+  outlet: string;
+  url: string;
+  citedByBullets: number[];
+}
+
+/**
+ * Injects source citations into review bullet points.
+ * Appends markdown links to each bullet for the sources citing it, in
+ * source order, up to MAX_CITATIONS_PER_BULLET.
+ *
+ * @param bullets - Array of bullet point strings
+ * @param sources - Sources with the bullets they back
+ * @returns New array of bullets with citations appended
+ */
+export function injectCitationsIntoBullets(bullets: string[], sources: CitedSource[]): string[] {
   return bullets.map((bullet, index) => {
-    if (index < sources.length) {
-      const source = sources[index];
-      const title = source.web?.title || "source";
-      const url = source.web?.uri || "";
-      return `${bullet} ([${title}](${url}))`;
-    }
-    return bullet;
+    const links = sources
+      .filter((source) => source.citedByBullets.includes(index))
+      .slice(0, MAX_CITATIONS_PER_BULLET)
+      .map((source) => `[${source.outlet}](${source.url})`);
+    return links.length > 0 ? `${bullet} (${links.join(", ")})` : bullet;
   });
 }
 
@@ -147,9 +178,13 @@ export function injectCitationsIntoBullets(
 export function extractTextFromGeminiResponse(response: unknown): string {
   const responseAny = response as Record<string, unknown>;
 
-  // Try direct text accessor first
-  if (typeof responseAny.text === "string") {
-    return responseAny.text;
+  // Try direct text accessor first (the SDK getter may throw on blocked content)
+  try {
+    if (typeof responseAny.text === "string" && responseAny.text.length > 0) {
+      return responseAny.text;
+    }
+  } catch {
+    // .text accessor threw, fall back to candidates
   }
 
   // Fall back to candidates structure
@@ -0,0 +1,162 @@
+/**
+ * Identification Cache
+ *
+ * Firestore cache of validated identification results keyed by the cover
+ * photo's perceptual hash. A lookup returns the closest stored result within
+ * a configurable Hamming distance, so re-scans and retries of the same cover
+ * skip the multimodal model call. Only successful identifications are
+ * stored: a re-scan after a failure deserves a fresh attempt.
+ *
+ * Entries are scoped to the identification prompt, since a different prompt
+ * can produce a differently shaped JSON result.
+ */
+
+import { createHash } from "crypto";
+import type { Firestore, Timestamp } from "firebase-admin/firestore";
+import { fingerprintBandProbes, fingerprintBands, hammingDistance, FINGERPRINT_BANDS } from "./image-fingerprint";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export const IDENTIFICATION_CACHE_TTL_MS = 30 * ONE_DAY_MS;
+
+/** Default near-duplicate threshold (bits out of 64) */
+export const DEFAULT_MAX_HAMMING_DISTANCE = 5;
+
+// Band probe lookups only guarantee recall up to 2 * FINGERPRINT_BANDS - 1 differing bits
+const MAX_SUPPORTED_DISTANCE = 2 * FINGERPRINT_BANDS - 1;
+
+// Cap on candidates fetched per band, so entries crowding one band cannot hide a match found by another
+const MAX_CANDIDATES_PER_BAND = 50;
+
+export interface IdentificationCacheHit {
+  content: string;
+  distance: number;
+  provider: string;
+}
+
+interface IdentificationCacheDocument {
+  hash: string;
+  scope: string;
+  bands: string[];
+  content: string;
+  provider: string;
+  createdAt: Timestamp;
+  // Also the field for a Firestore TTL policy
+  expiresAt: Timestamp;
+}
+
+/**
+ * Short stable scope for a prompt
+ */
+export function promptScope(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+}
+
+/**
+ * Picks the closest candidate within maxDistance, or null
+ */
+export function closestMatch<T extends { hash: string }>(
+  hash: string,
+  candidates: T[],
+  maxDistance: number
+): { candidate: T; distance: number } | null {
+  let best: { candidate: T; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = hammingDistance(hash, candidate.hash);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+  return best;
+}
+
+export interface IdentificationCacheOptions {
+  collection?: string;
+  now?: () => number;
+}
+
+/**
+ * Firestore-backed identification cache. Errors are logged and treated as
+ * misses so the cache can never fail a scan.
+ */
+export class IdentificationCache {
+  private readonly collection: string;
+  private readonly now: () => number;
+
+  constructor(private readonly db: Firestore, options: IdentificationCacheOptions = {}) {
+    this.collection = options.collection ?? "identificationCache";
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Finds the closest cached result within maxDistance bits (clamped to the
+   * range the band lookup can guarantee)
+   */
+  async find(
+    hash: string,
+    scope: string,
+    maxDistance: number = DEFAULT_MAX_HAMMING_DISTANCE
+  ): Promise<IdentificationCacheHit | null> {
+    const threshold = Math.min(Math.max(0, maxDistance), MAX_SUPPORTED_DISTANCE);
+    try {
+      const snapshots = await Promise.all(fingerprintBandProbes(hash).map((probes) =>
+        this.db
+          .collection(this.collection)
+          .where("bands", "array-contains-any", probes.map((probe) => `${scope}/${probe}`))
+          .limit(MAX_CANDIDATES_PER_BAND)
+          .get()
+      ));
+
+      const now = this.now();
+      const candidates = snapshots
+        .flatMap((snapshot) => snapshot.docs.map((doc) => doc.data() as IdentificationCacheDocument))
+        .filter((doc) => doc.scope === scope && doc.expiresAt.toMillis() > now);
+
+      const match = closestMatch(hash, candidates, threshold);
+      if (!match) return null;
+
+      return {
+        content: match.candidate.content,
+        distance: match.distance,
+        provider: match.candidate.provider,
+      };
+    } catch (error) {
+      console.error(`[identificationCache] Lookup failed for ${hash}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Stores a result. Callers must only pass content that passed validation;
+   * results without `success: true` are skipped.
+   */
+  async store(hash: string, scope: string, content: string, provider: string): Promise<void> {
+    if (!isSuccessfulIdentification(content)) {
+      console.log(`[identificationCache] Not storing unsuccessful identification for ${hash}`);
+      return;
+    }
+    const now = this.now();
+    try {
+      await this.db.collection(this.collection).doc(`${scope}_${hash}`).set({
+        hash,
+        scope,
+        // Scoped so the per-band array-contains-any queries need no composite index
+        bands: fingerprintBands(hash).map((band) => `${scope}/${band}`),
+        content,
+        provider,
+        createdAt: new Date(now),
+        expiresAt: new Date(now + IDENTIFICATION_CACHE_TTL_MS),
+      });
+    } catch (error) {
+      console.error(`[identificationCache] Write failed for ${hash}: ${error}`);
+    }
+  }
+}
+
+function isSuccessfulIdentification(content: string): boolean {
+  try {
+    return (JSON.parse(content) as { success?: unknown }).success === true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Image Fingerprinting
+ *
+ * Perceptual hashing (dHash) of album cover photos so that re-scans of the
+ * same cover can be recognized even though every camera capture produces
+ * different bytes. Two photos of the same cover typically differ by only a
+ * few bits; unrelated covers differ by ~32.
+ */
+
+import * as jpeg from "jpeg-js";
+
+const HASH_WIDTH = 9; // 9 columns -> 8 horizontal gradients per row
+const HASH_HEIGHT = 8;
+
+/**
+ * Number of 16-bit bands the 64-bit hash is split into for lookups. Wide
+ * bands keep unrelated covers from sharing one by chance as the cache grows.
+ */
+export const FINGERPRINT_BANDS = 4;
+
+/**
+ * Decodes a base64 JPEG into an 8-bit grayscale buffer
+ *
+ * @throws Error if the image cannot be decoded
+ */
+export function decodeGrayscale(base64Image: string): { width: number; height: number; pixels: Uint8Array } {
+  const decoded = jpeg.decode(Buffer.from(base64Image, "base64"), {
+    useTArray: true,
+    formatAsRGBA: true,
+    maxResolutionInMP: 50,
+    maxMemoryUsageInMB: 256,
+  });
+
+  const pixels = new Uint8Array(decoded.width * decoded.height);
+  for (let i = 0; i < pixels.length; i++) {
+    const r = decoded.data[i * 4];
+    const g = decoded.data[i * 4 + 1];
+    const b = decoded.data[i * 4 + 2];
+    // ITU-R BT.601 luma
+    pixels[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+  }
+  return { width: decoded.width, height: decoded.height, pixels };
+}
+
+/**
+ * Downsamples a grayscale image to a small grid by box averaging
+ */
+export function downsample(
+  image: { width: number; height: number; pixels: Uint8Array },
+  targetWidth: number,
+  targetHeight: number
+): number[] {
+  const { width, height, pixels } = image;
+  const grid: number[] = [];
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += pixels[y * width + x];
+        }
+      }
+      grid.push(sum / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+  return grid;
+}
+
+/**
+ * Computes a 64-bit difference hash (dHash) as 16 hex characters
+ */
+export function differenceHash(image: { width: number; height: number; pixels: Uint8Array }): string {
+  const grid = downsample(image, HASH_WIDTH, HASH_HEIGHT);
+  let hex = "";
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let byte = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const left = grid[row * HASH_WIDTH + col];
+      const right = grid[row * HASH_WIDTH + col + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/**
+ * Computes the perceptual hash of a base64 JPEG
+ *
+ * @throws Error if the image cannot be decoded
+ */
+export function fingerprintImage(base64Image: string): string {
+  return differenceHash(decodeGrayscale(base64Image));
+}
+
+/**
+ * Counts differing bits between two equal-length hex hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error("Hashes must be the same length");
+  }
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Splits a hash into positional bands ("0:a3f1", "1:ff00", ...)
+ */
+export function fingerprintBands(hash: string): string[] {
+  const bandLength = hash.length / FINGERPRINT_BANDS;
+  return Array.from({ length: FINGERPRINT_BANDS }, (_, i) =>
+    `${i}:${hash.slice(i * bandLength, (i + 1) * bandLength)}`
+  );
+}
+
+/**
+ * Per band, the band itself and every value one bit away from it (17 probes
+ * for a 16-bit band). Two hashes within distance 2 * FINGERPRINT_BANDS - 1
+ * always have a band differing by at most one bit, so an equality lookup on
+ * one band's probes finds every near-duplicate candidate.
+ */
+export function fingerprintBandProbes(hash: string): string[][] {
+  const bandLength = hash.length / FINGERPRINT_BANDS;
+  return Array.from({ length: FINGERPRINT_BANDS }, (_, i) => {
+    const band = parseInt(hash.slice(i * bandLength, (i + 1) * bandLength), 16);
+    const values = [band, ...Array.from({ length: bandLength * 4 }, (_, bit) => band ^ (1 << bit))];
+    return values.map((value) => `${i}:${value.toString(16).padStart(bandLength, "0")}`);
+  });
+}
@@ -0,0 +1,432 @@
+/**
+ * MusicBrainz and Cover Art Archive Client
+ *
+ * Looks up identified albums so clients (AlbumScan and Crate alike) get
+ * MBIDs, canonical spellings, release dates, labels and cover art from the
+ * backend instead of each doing their own lookups.
+ *
+ * MusicBrainz asks for at most one request per second per client and a
+ * meaningful User-Agent. Every MusicBrainz request in a function instance
+ * goes through one shared throttle; the Cover Art Archive has no such limit.
+ * The throttle is per instance, so N warm instances can send up to N
+ * requests per second; MusicBrainz answers the excess with 503s, which
+ * lookups treat as unavailable. The queue is capped, and enrichment has a
+ * deadline that drops its queued requests and aborts the one in flight, so
+ * a backlog never holds up identification responses.
+ */
+
+import { normalizeAlbumText } from "./review-cache";
+
+export const MUSICBRAINZ_BASE_URL = "https://musicbrainz.org/ws/2";
+export const COVER_ART_ARCHIVE_BASE_URL = "https://coverartarchive.org";
+export const MUSICBRAINZ_USER_AGENT = "AlbumScan/1.0 (james@jamesschaffer.com)";
+
+/** MusicBrainz etiquette: one request per second */
+export const MUSICBRAINZ_MIN_INTERVAL_MS = 1000;
+
+/** Requests allowed to wait for the shared throttle; more are refused rather than queued */
+export const MUSICBRAINZ_MAX_QUEUED = 5;
+
+/** Time an identification waits for enrichment before returning without it */
+export const DEFAULT_ENRICHMENT_TIMEOUT_MS = 4000;
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/** Search results scoring below this (0-100) are not the album we asked for */
+const MIN_MATCH_SCORE = 90;
+
+/** Releases per browse request (MusicBrainz's maximum) */
+const BROWSE_PAGE_SIZE = 100;
+
+/** Pages browsed per release group, so huge groups cannot hold a request for long */
+const MAX_BROWSE_PAGES = 5;
+
+/** Minimal fetch signature, so tests can point the client at a local server */
+export type HttpGet = (
+  url: string,
+  init: { method: "GET"; headers: Record<string, string>; signal?: AbortSignal }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+export class MusicBrainzError extends Error {
+  constructor(message: string, readonly status: number | null) {
+    super(message);
+    this.name = "MusicBrainzError";
+  }
+}
+
+/**
+ * Spaces requests at least intervalMs apart. Callers queue up in call order,
+ * up to maxQueued waiting; a caller whose signal aborts leaves the queue.
+ */
+export class RequestThrottle {
+  private lastStart = -Infinity;
+  private readonly queue: Array<{ start: () => void }> = [];
+  private draining = false;
+  private readonly maxQueued: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private readonly intervalMs: number,
+    options: { maxQueued?: number; now?: () => number; sleep?: (ms: number) => Promise<void> } = {}
+  ) {
+    this.maxQueued = options.maxQueued ?? Infinity;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * @throws MusicBrainzError if maxQueued requests are already waiting, or
+   * the signal aborts before this request's turn
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new MusicBrainzError("Request aborted", null));
+    }
+    if (this.queue.length >= this.maxQueued) {
+      return Promise.reject(new MusicBrainzError(`Request queue full (${this.queue.length} waiting)`, null));
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        start: () => {
+          signal?.removeEventListener("abort", leave);
+          resolve();
+        },
+      };
+      const leave = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index < 0) return;
+        this.queue.splice(index, 1);
+        reject(new MusicBrainzError("Request aborted while queued", null));
+      };
+      signal?.addEventListener("abort", leave, { once: true });
+      this.queue.push(waiter);
+      void this.drain();
+    });
+  }
+
+  /** Starts queued requests one interval apart until the queue is empty */
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.queue.length > 0) {
+        const wait = this.lastStart + this.intervalMs - this.now();
+        if (wait > 0) await this.sleep(wait);
+        // Everyone who was waiting may have left during the sleep
+        const waiter = this.queue.shift();
+        if (!waiter) break;
+        this.lastStart = wait > 0 ? this.lastStart + this.intervalMs : this.now();
+        waiter.start();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+}
+
+/** Throttle shared by every MusicBrainzClient in this instance */
+const sharedThrottle = new RequestThrottle(MUSICBRAINZ_MIN_INTERVAL_MS, { maxQueued: MUSICBRAINZ_MAX_QUEUED });
+
+// ============================================================================
+// API shapes (only the fields we read)
+// ============================================================================
+
+export interface MusicBrainzArtistCredit {
+  name: string;
+  joinphrase?: string;
+}
+
+export interface MusicBrainzTrack {
+  id: string;
+  position: number;
+  /** As printed, e.g. "3" or "B1" */
+  number: string;
+  title: string;
+  /** Milliseconds */
+  length?: number | null;
+  recording?: { id: string; title: string; length?: number | null };
+}
+
+export interface MusicBrainzMedium {
+  position: number;
+  format?: string | null;
+  title?: string | null;
+  "track-count"?: number;
+  tracks?: MusicBrainzTrack[];
+}
+
+export interface MusicBrainzRelease {
+  id: string;
+  score?: number;
+  title: string;
+  status?: string;
+  date?: string;
+  country?: string;
+  "artist-credit"?: MusicBrainzArtistCredit[];
+  "release-group"?: { id: string; title?: string; "primary-type"?: string };
+  "label-info"?: Array<{ "catalog-number"?: string; label?: { id: string; name: string } }>;
+  media?: MusicBrainzMedium[];
+}
+
+export interface MusicBrainzReleaseGroup {
+  id: string;
+  title: string;
+  "first-release-date"?: string;
+  "artist-credit"?: MusicBrainzArtistCredit[];
+  genres?: Array<{ name: string; count: number }>;
+}
+
+interface CoverArtListing {
+  images?: Array<{ front?: boolean; image?: string }>;
+}
+
+/** What a successful identification gains from MusicBrainz and the Cover Art Archive */
+export interface Enrichment {
+  releaseGroupMbid: string;
+  releaseMbid: string;
+  /** Canonical spellings from MusicBrainz */
+  artistName: string;
+  albumTitle: string;
+  /** YYYY, YYYY-MM or YYYY-MM-DD */
+  firstReleaseDate: string | null;
+  label: string | null;
+  coverArtUrl: string | null;
+}
+
+export interface MusicBrainzClientOptions {
+  baseUrl?: string;
+  coverArtBaseUrl?: string;
+  fetch?: HttpGet;
+  throttle?: RequestThrottle;
+  timeoutMs?: number;
+  /** Aborts the client's queued and in-flight requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Joins an artist credit the way MusicBrainz displays it ("A feat. B")
+ */
+export function artistCreditName(credit: MusicBrainzArtistCredit[] | undefined): string {
+  return (credit ?? []).map((entry) => `${entry.name}${entry.joinphrase ?? ""}`).join("");
+}
+
+/** Quotes a value for a Lucene search query */
+function luceneTerm(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+export class MusicBrainzClient {
+  private readonly baseUrl: string;
+  private readonly coverArtBaseUrl: string;
+  private readonly fetch: HttpGet;
+  private readonly throttle: RequestThrottle;
+  private readonly timeoutMs: number;
+  private readonly signal?: AbortSignal;
+
+  constructor(private readonly options: MusicBrainzClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? MUSICBRAINZ_BASE_URL;
+    this.coverArtBaseUrl = options.coverArtBaseUrl ?? COVER_ART_ARCHIVE_BASE_URL;
+    this.fetch = options.fetch ?? fetch;
+    this.throttle = options.throttle ?? sharedThrottle;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.signal = options.signal;
+  }
+
+  /**
+   * The same client, with every request aborted (or dropped from the
+   * throttle queue) once the signal aborts
+   */
+  withSignal(signal: AbortSignal): MusicBrainzClient {
+    return new MusicBrainzClient({ ...this.options, throttle: this.throttle, signal });
+  }
+
+  /**
+   * Release search, best match first
+   */
+  async searchReleases(artistName: string, albumTitle: string, limit = 10): Promise<MusicBrainzRelease[]> {
+    const query = `artist:${luceneTerm(artistName)} AND release:${luceneTerm(albumTitle)}`;
+    const body = await this.musicBrainz("release", { query, limit: String(limit) }) as
+      { releases?: MusicBrainzRelease[] } | null;
+    return body?.releases ?? [];
+  }
+
+  /**
+   * Release with its tracklist, artist credit and release group
+   */
+  async getRelease(mbid: string): Promise<MusicBrainzRelease | null> {
+    return await this.musicBrainz(`release/${encodeURIComponent(mbid)}`, {
+      inc: "recordings artist-credits release-groups",
+    }) as MusicBrainzRelease | null;
+  }
+
+  /**
+   * Every release (pressing, edition) in a release group, with media formats,
+   * paging through up to MAX_BROWSE_PAGES pages
+   */
+  async browseReleases(releaseGroupMbid: string): Promise<MusicBrainzRelease[]> {
+    const releases: MusicBrainzRelease[] = [];
+    for (let page = 0; page < MAX_BROWSE_PAGES; page++) {
+      const body = await this.musicBrainz("release", {
+        "release-group": releaseGroupMbid,
+        inc: "media",
+        limit: String(BROWSE_PAGE_SIZE),
+        offset: String(releases.length),
+      }) as { releases?: MusicBrainzRelease[]; "release-count"?: number } | null;
+      const batch = body?.releases ?? [];
+      releases.push(...batch);
+      if (batch.length < BROWSE_PAGE_SIZE || releases.length >= (body?.["release-count"] ?? 0)) break;
+    }
+    return releases;
+  }
+
+  /**
+   * Release search by UPC/EAN barcode, or by catalog number (optionally
+   * narrowed to a label), best match first
+   */
+  async searchReleasesByCode(
+    code: { barcode: string } | { catalogNumber: string; label?: string },
+    limit = 10
+  ): Promise<MusicBrainzRelease[]> {
+    const query = "barcode" in code ?
+      `barcode:${code.barcode}` :
+      `catno:${luceneTerm(code.catalogNumber)}${code.label ? ` AND label:${luceneTerm(code.label)}` : ""}`;
+    const body = await this.musicBrainz("release", { query, limit: String(limit) }) as
+      { releases?: MusicBrainzRelease[] } | null;
+    return body?.releases ?? [];
+  }
+
+  /**
+   * Release group with its artist credit and genres
+   */
+  async getReleaseGroup(mbid: string): Promise<MusicBrainzReleaseGroup | null> {
+    return await this.musicBrainz(`release-group/${encodeURIComponent(mbid)}`, {
+      inc: "artist-credits genres",
+    }) as MusicBrainzReleaseGroup | null;
+  }
+
+  /**
+   * Front cover image URL (https) for a release group or release, or null if it has none
+   */
+  async getFrontCoverUrl(entity: "release-group" | "release", mbid: string): Promise<string | null> {
+    const listing = await this.get(`${this.coverArtBaseUrl}/${entity}/${encodeURIComponent(mbid)}`) as
+      CoverArtListing | null;
+    const front = listing?.images?.find((image) => image.front) ?? listing?.images?.[0];
+    return front?.image ? front.image.replace(/^http:\/\//, "https://") : null;
+  }
+
+  /**
+   * Throttled MusicBrainz GET; null for 404
+   */
+  private async musicBrainz(path: string, params: Record<string, string> = {}): Promise<unknown> {
+    const query = new URLSearchParams({ ...params, fmt: "json" });
+    await this.throttle.acquire(this.signal);
+    return this.get(`${this.baseUrl}/${path}?${query}`);
+  }
+
+  private async get(url: string): Promise<unknown> {
+    if (this.signal?.aborted) {
+      throw new MusicBrainzError(`Request to ${url} aborted`, null);
+    }
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timer = setTimeout(abort, this.timeoutMs);
+    this.signal?.addEventListener("abort", abort);
+    try {
+      let response: Awaited<ReturnType<HttpGet>>;
+      try {
+        response = await this.fetch(url, {
+          method: "GET",
+          headers: { "User-Agent": MUSICBRAINZ_USER_AGENT, "Accept": "application/json" },
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw new MusicBrainzError(`Request to ${url} failed: ${error}`, null);
+      }
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new MusicBrainzError(`Request to ${url} failed with status ${response.status}`, response.status);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+      this.signal?.removeEventListener("abort", abort);
+    }
+  }
+}
+
+/**
+ * Picks the release that best matches the identification: among confident
+ * search hits, an official release with the same artist and title, else the
+ * top hit
+ */
+export function selectRelease(
+  releases: MusicBrainzRelease[],
+  artistName: string,
+  albumTitle: string
+): MusicBrainzRelease | null {
+  const candidates = releases.filter((release) => (release.score ?? 100) >= MIN_MATCH_SCORE);
+  const exact = candidates.find((release) =>
+    release.status === "Official" &&
+    normalizeAlbumText(release.title) === normalizeAlbumText(albumTitle) &&
+    normalizeAlbumText(artistCreditName(release["artist-credit"])) === normalizeAlbumText(artistName)
+  );
+  return exact ?? candidates[0] ?? null;
+}
+
+/**
+ * Looks up an identified album: release and release group MBIDs, canonical
+ * spellings, first release date, label and cover art
+ *
+ * @returns null if MusicBrainz has no confident match
+ * @throws MusicBrainzError if MusicBrainz is unreachable, errors or takes longer than timeoutMs
+ */
+export async function enrichIdentification(
+  client: MusicBrainzClient,
+  album: { artistName: string; albumTitle: string },
+  options: { timeoutMs?: number } = {}
+): Promise<Enrichment | null> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_ENRICHMENT_TIMEOUT_MS;
+  // Aborting drops the lookup's queued requests, so abandoned lookups never fill the throttle queue
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new MusicBrainzError(`Enrichment timed out after ${timeoutMs}ms`, null));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([lookUpEnrichment(client.withSignal(controller.signal), album), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function lookUpEnrichment(
+  client: MusicBrainzClient,
+  album: { artistName: string; albumTitle: string }
+): Promise<Enrichment | null> {
+  const release = selectRelease(
+    await client.searchReleases(album.artistName, album.albumTitle),
+    album.artistName,
+    album.albumTitle
+  );
+  const releaseGroupId = release?.["release-group"]?.id;
+  if (!release || !releaseGroupId) return null;
+
+  const releaseGroup = await client.getReleaseGroup(releaseGroupId);
+  // Release-group art is the album's main cover; fall back to this particular release's
+  const coverArtUrl = await client.getFrontCoverUrl("release-group", releaseGroupId) ??
+    await client.getFrontCoverUrl("release", release.id);
+
+  return {
+    releaseGroupMbid: releaseGroupId,
+    releaseMbid: release.id,
+    artistName: artistCreditName(releaseGroup?.["artist-credit"] ?? release["artist-credit"]) || album.artistName,
+    albumTitle: releaseGroup?.title ?? release["release-group"]?.title ?? release.title,
+    firstReleaseDate: releaseGroup?.["first-release-date"] || release.date || null,
+    label: release["label-info"]?.find((info) => info.label)?.label?.name ?? null,
+    coverArtUrl,
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Distributed Rate Limiter
+ *
+ * Firestore-backed per-device rate limiting shared across all Cloud Functions
+ * instances. Each (function, device) pair owns a single document that is
+ * read and updated inside a transaction, so concurrent requests on different
+ * instances see the same counters and nothing is lost on cold start.
+ *
+ * Shared identities (the App Check app ID, "unknown-device") stand for many
+ * installs, so they do not get a device's budget: all of their callers
+ * together get an explicitly sized global budget, split over a few documents
+ * so no single document takes every write.
+ *
+ * The window math is kept in pure functions so it can be tested in isolation;
+ * the Firestore wrapper is exercised against the emulator.
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+export interface RateLimitBudget {
+  algorithm: RateLimitAlgorithm;
+  /** Requests allowed per window (sliding window) or bucket capacity (token bucket) */
+  maxRequests: number;
+  /** Window length, or the time to refill a full bucket */
+  windowMs: number;
+}
+
+/**
+ * Persisted limiter state. Sliding-window fields and token-bucket fields live
+ * side by side so a budget can switch algorithms without a migration.
+ */
+export interface RateLimitState {
+  windowStart?: number;
+  count?: number;
+  previousCount?: number;
+  tokens?: number;
+  lastRefill?: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Milliseconds until the next request would be allowed (0 when allowed) */
+  retryAfterMs: number;
+  state: RateLimitState;
+}
+
+const ONE_MINUTE_MS = 60 * 1000;
+
+/**
+ * Per-function budgets. Expensive multimodal calls get a bursty-but-bounded
+ * token bucket; cheap calls get a generous sliding window.
+ */
+export const DEFAULT_RATE_LIMIT_BUDGETS: Record<string, RateLimitBudget> = {
+  identifyAlbum: { algorithm: "token-bucket", maxRequests: 10, windowMs: ONE_MINUTE_MS },
+  identifyAlbumGemini: { algorithm: "token-bucket", maxRequests: 10, windowMs: ONE_MINUTE_MS },
+  identifyAlbumsBatch: { algorithm: "token-bucket", maxRequests: 5, windowMs: ONE_MINUTE_MS },
+  identifyByCode: { algorithm: "sliding-window", maxRequests: 20, windowMs: ONE_MINUTE_MS },
+  searchFinalizeAlbum: { algorithm: "sliding-window", maxRequests: 10, windowMs: ONE_MINUTE_MS },
+  searchFinalizeAlbumGemini: { algorithm: "sliding-window", maxRequests: 10, windowMs: ONE_MINUTE_MS },
+  generateReviewGemini: { algorithm: "sliding-window", maxRequests: 10, windowMs: ONE_MINUTE_MS },
+  getTracklist: { algorithm: "sliding-window", maxRequests: 20, windowMs: ONE_MINUTE_MS },
+};
+
+/** Budget used for any function without an explicit entry */
+export const FALLBACK_RATE_LIMIT_BUDGET: RateLimitBudget = {
+  algorithm: "sliding-window",
+  maxRequests: 10,
+  windowMs: ONE_MINUTE_MS,
+};
+
+/**
+ * Global per-function budgets for all callers of a shared identity together,
+ * sized for the whole user base until clients sign in anonymously
+ */
+export const SHARED_RATE_LIMIT_BUDGETS: Record<string, RateLimitBudget> = {
+  identifyAlbum: { algorithm: "token-bucket", maxRequests: 300, windowMs: ONE_MINUTE_MS },
+  identifyAlbumGemini: { algorithm: "token-bucket", maxRequests: 300, windowMs: ONE_MINUTE_MS },
+  identifyAlbumsBatch: { algorithm: "token-bucket", maxRequests: 100, windowMs: ONE_MINUTE_MS },
+  identifyByCode: { algorithm: "sliding-window", maxRequests: 300, windowMs: ONE_MINUTE_MS },
+  searchFinalizeAlbum: { algorithm: "sliding-window", maxRequests: 200, windowMs: ONE_MINUTE_MS },
+  searchFinalizeAlbumGemini: { algorithm: "sliding-window", maxRequests: 200, windowMs: ONE_MINUTE_MS },
+  generateReviewGemini: { algorithm: "sliding-window", maxRequests: 300, windowMs: ONE_MINUTE_MS },
+  getTracklist: { algorithm: "sliding-window", maxRequests: 300, windowMs: ONE_MINUTE_MS },
+};
+
+/** Shared budget used for any function without an explicit entry */
+export const FALLBACK_SHARED_RATE_LIMIT_BUDGET: RateLimitBudget = {
+  algorithm: "sliding-window",
+  maxRequests: 100,
+  windowMs: ONE_MINUTE_MS,
+};
+
+/** Documents a shared budget is split over; each takes an equal share of it */
+export const SHARED_RATE_LIMIT_SHARDS = 10;
+
+/**
+ * Sliding window counter: the previous fixed window's count is weighted by how
+ * much of it still overlaps the trailing window. Approximates a true sliding
+ * log with constant storage.
+ */
+export function applySlidingWindow(
+  state: RateLimitState | undefined,
+  budget: RateLimitBudget,
+  now: number
+): RateLimitDecision {
+  const { maxRequests, windowMs } = budget;
+  const currentWindowStart = Math.floor(now / windowMs) * windowMs;
+
+  let count = 0;
+  let previousCount = 0;
+
+  if (state?.windowStart !== undefined) {
+    if (state.windowStart === currentWindowStart) {
+      count = state.count ?? 0;
+      previousCount = state.previousCount ?? 0;
+    } else if (state.windowStart === currentWindowStart - windowMs) {
+      previousCount = state.count ?? 0;
+    }
+  }
+
+  const elapsedFraction = (now - currentWindowStart) / windowMs;
+  const weighted = previousCount * (1 - elapsedFraction) + count;
+
+  if (weighted + 1 > maxRequests) {
+    // Time until enough of the previous window has slid out to admit one more
+    const retryAfterMs = previousCount > 0 && count < maxRequests ?
+      Math.ceil(((weighted + 1 - maxRequests) / previousCount) * windowMs) :
+      currentWindowStart + windowMs - now;
+    return {
+      allowed: false,
+      retryAfterMs: Math.max(1, retryAfterMs),
+      state: { windowStart: currentWindowStart, count, previousCount },
+    };
+  }
+
+  return {
+    allowed: true,
+    retryAfterMs: 0,
+    state: { windowStart: currentWindowStart, count: count + 1, previousCount },
+  };
+}
+
+/**
+ * Token bucket: the bucket holds up to maxRequests tokens and refills
+ * continuously at maxRequests per windowMs. Each request spends one token.
+ */
+export function applyTokenBucket(
+  state: RateLimitState | undefined,
+  budget: RateLimitBudget,
+  now: number
+): RateLimitDecision {
+  const { maxRequests, windowMs } = budget;
+  const refillPerMs = maxRequests / windowMs;
+
+  let tokens = maxRequests;
+  if (state?.tokens !== undefined && state.lastRefill !== undefined) {
+    const elapsed = Math.max(0, now - state.lastRefill);
+    tokens = Math.min(maxRequests, state.tokens + elapsed * refillPerMs);
+  }
+
+  if (tokens < 1) {
+    return {
+      allowed: false,
+      retryAfterMs: Math.max(1, Math.ceil((1 - tokens) / refillPerMs)),
+      state: { tokens, lastRefill: now },
+    };
+  }
+
+  return {
+    allowed: true,
+    retryAfterMs: 0,
+    state: { tokens: tokens - 1, lastRefill: now },
+  };
+}
+
+/**
+ * Applies the budget's algorithm to the current state
+ */
+export function applyRateLimit(
+  state: RateLimitState | undefined,
+  budget: RateLimitBudget,
+  now: number
+): RateLimitDecision {
+  return budget.algorithm === "token-bucket" ?
+    applyTokenBucket(state, budget, now) :
+    applySlidingWindow(state, budget, now);
+}
+
+export interface RateLimiterOptions {
+  collection?: string;
+  budgets?: Record<string, RateLimitBudget>;
+  sharedBudgets?: Record<string, RateLimitBudget>;
+  now?: () => number;
+  /** Picks a shared budget's shard; 0 <= value < 1 */
+  random?: () => number;
+}
+
+/**
+ * Shared rate limiter backed by Firestore transactions
+ */
+export class FirestoreRateLimiter {
+  private readonly collection: string;
+  private readonly budgets: Record<string, RateLimitBudget>;
+  private readonly sharedBudgets: Record<string, RateLimitBudget>;
+  private readonly now: () => number;
+  private readonly random: () => number;
+
+  constructor(private readonly db: Firestore, options: RateLimiterOptions = {}) {
+    this.collection = options.collection ?? "rateLimits";
+    this.budgets = options.budgets ?? DEFAULT_RATE_LIMIT_BUDGETS;
+    this.sharedBudgets = options.sharedBudgets ?? SHARED_RATE_LIMIT_BUDGETS;
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  budgetFor(functionName: string): RateLimitBudget {
+    return this.budgets[functionName] ?? FALLBACK_RATE_LIMIT_BUDGET;
+  }
+
+  /** Global budget for all callers of a shared identity together */
+  sharedBudgetFor(functionName: string): RateLimitBudget {
+    return this.sharedBudgets[functionName] ?? FALLBACK_SHARED_RATE_LIMIT_BUDGET;
+  }
+
+  /**
+   * Consumes one request from the device's budget for the given function, or
+   * for a shared identity, from one shard of the function's shared budget.
+   * Fails open if Firestore is unavailable so an outage of the limiter does
+   * not take scanning down with it.
+   */
+  async consume(
+    functionName: string,
+    deviceId: string,
+    options: { shared?: boolean } = {}
+  ): Promise<RateLimitDecision> {
+    let budget = this.budgetFor(functionName);
+    let docId = rateLimitDocId(functionName, deviceId);
+    if (options.shared) {
+      const shared = this.sharedBudgetFor(functionName);
+      const shard = Math.floor(this.random() * SHARED_RATE_LIMIT_SHARDS);
+      budget = { ...shared, maxRequests: Math.max(1, Math.ceil(shared.maxRequests / SHARED_RATE_LIMIT_SHARDS)) };
+      docId = `${rateLimitDocId(functionName, deviceId)}_${shard}`;
+    }
+    const ref = this.db.collection(this.collection).doc(docId);
+
+    try {
+      return await this.db.runTransaction(async (tx) => {
+        const snapshot = await tx.get(ref);
+        const now = this.now();
+        const current = snapshot.exists ? snapshot.data() as RateLimitState : undefined;
+        const decision = applyRateLimit(current, budget, now);
+
+        tx.set(ref, {
+          ...decision.state,
+          functionName,
+          deviceId,
+          // Lets a Firestore TTL policy sweep idle devices
+          expiresAt: new Date(now + budget.windowMs * 2),
+        });
+
+        return decision;
+      });
+    } catch (error) {
+      console.error(`[rateLimiter] Firestore error for ${functionName}, allowing request: ${error}`);
+      return { allowed: true, retryAfterMs: 0, state: {} };
+    }
+  }
+}
+
+/**
+ * Builds a Firestore-safe document ID for a (function, device) pair
+ */
+export function rateLimitDocId(functionName: string, deviceId: string): string {
+  return `${functionName}_${encodeURIComponent(deviceId)}`;
+}
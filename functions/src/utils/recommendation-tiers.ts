@@ -0,0 +1,156 @@
+/**
+ * Recommendation Tier Taxonomy
+ *
+ * The eight recommendation tiers and their 24 labels. The review prompt's
+ * label list is rendered from this table, and review responses carry the
+ * canonical label plus its tier number so clients never string-match.
+ */
+
+export const RECOMMENDATION_TIERS = [
+  {
+    tier: 1,
+    name: "Undeniable Greatness",
+    description: "Canonical, genuinely influential albums",
+    labels: ["Essential Classic", "Genre Landmark", "Cultural Monument"],
+  },
+  {
+    tier: 2,
+    name: "Critical Darlings",
+    description: "Acclaimed by critics more than by the charts",
+    labels: ["Indie Masterpiece", "Cult Essential", "Critics' Choice"],
+  },
+  {
+    tier: 3,
+    name: "Crowd Pleasers",
+    description: "Commercial successes with broad appeal",
+    labels: ["Crowd Favorite", "Radio Gold", "Crossover Success"],
+  },
+  {
+    tier: 4,
+    name: "Hidden Gems",
+    description: "Overlooked albums that reward discovery",
+    labels: ["Deep Cut", "Surprise Excellence", "Scene Favorite"],
+  },
+  {
+    tier: 5,
+    name: "Historical Interest",
+    description: "Matters more for its place in history than as a listen",
+    labels: ["Time Capsule", "Influential Curio", "Pioneering Effort"],
+  },
+  {
+    tier: 6,
+    name: "Solid Work",
+    description: "Dependable albums without wider significance",
+    labels: ["Reliable Listen", "Fan Essential", "Genre Staple"],
+  },
+  {
+    tier: 7,
+    name: "Problematic",
+    description: "Flawed or divisive albums",
+    labels: ["Ambitious Failure", "Divisive Work", "Uneven Effort"],
+  },
+  {
+    tier: 8,
+    name: "Pass",
+    description: "Not worth the listener's time",
+    labels: ["Forgettable Entry", "Career Low", "Avoid Entirely"],
+  },
+] as const;
+
+export type RecommendationTier = typeof RECOMMENDATION_TIERS[number];
+export type RecommendationTierNumber = RecommendationTier["tier"];
+export type RecommendationLabel = RecommendationTier["labels"][number];
+
+/** All 24 labels, tier 1 (best) to tier 8 */
+export const RECOMMENDATION_LABELS: readonly RecommendationLabel[] =
+  RECOMMENDATION_TIERS.flatMap((tier) => tier.labels);
+
+/**
+ * Near-miss labels the model is known to produce that edit distance alone
+ * would map to the wrong tier
+ */
+const LABEL_ALIASES: Record<string, RecommendationLabel> = {
+  "cult classic": "Cult Essential",
+  "essential listening": "Essential Classic",
+  "hidden gem": "Deep Cut",
+  "fan favorite": "Fan Essential",
+  "critical darling": "Critics' Choice",
+};
+
+/** Minimum similarity (1 - edit distance / length) for a fuzzy match */
+const FUZZY_MATCH_THRESHOLD = 0.8;
+
+export interface ResolvedRecommendation {
+  label: RecommendationLabel;
+  tier: RecommendationTierNumber;
+  /** How the input was matched */
+  match: "exact" | "normalized" | "alias" | "fuzzy";
+}
+
+/**
+ * The prompt's tier list, one line per tier:
+ * "TIER 1 (Undeniable Greatness): Essential Classic | Genre Landmark | Cultural Monument"
+ */
+export function renderRecommendationTiers(indent = ""): string {
+  return RECOMMENDATION_TIERS
+    .map((tier) => `${indent}TIER ${tier.tier} (${tier.name}): ${tier.labels.join(" | ")}`)
+    .join("\n");
+}
+
+/**
+ * Tier number of a canonical label
+ */
+export function tierForLabel(label: RecommendationLabel): RecommendationTierNumber {
+  return RECOMMENDATION_TIERS.find((tier) => (tier.labels as readonly string[]).includes(label))!.tier;
+}
+
+function normalizeLabel(value: string): string {
+  return value.replace(/[\u2018\u2019]/g, "'").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Maps a model's recommendation to a canonical label: exactly, ignoring
+ * case/spacing/quotes, via a known alias, or by closest spelling
+ * (e.g. "Crowd Favourite", "Genre Landmarks")
+ *
+ * @returns null if nothing is close enough
+ */
+export function resolveRecommendation(value: string): ResolvedRecommendation | null {
+  const resolved = (label: RecommendationLabel, match: ResolvedRecommendation["match"]) =>
+    ({ label, tier: tierForLabel(label), match });
+
+  if ((RECOMMENDATION_LABELS as readonly string[]).includes(value)) {
+    return resolved(value as RecommendationLabel, "exact");
+  }
+
+  const normalized = normalizeLabel(value);
+  const sameLabel = RECOMMENDATION_LABELS.find((label) => normalizeLabel(label) === normalized);
+  if (sameLabel) return resolved(sameLabel, "normalized");
+
+  const alias = LABEL_ALIASES[normalized];
+  if (alias) return resolved(alias, "alias");
+
+  let best: { label: RecommendationLabel; similarity: number } | null = null;
+  for (const label of RECOMMENDATION_LABELS) {
+    const candidate = normalizeLabel(label);
+    const similarity = 1 - editDistance(normalized, candidate) / Math.max(normalized.length, candidate.length);
+    if (!best || similarity > best.similarity) best = { label, similarity };
+  }
+  return best && best.similarity >= FUZZY_MATCH_THRESHOLD ? resolved(best.label, "fuzzy") : null;
+}
@@ -0,0 +1,90 @@
+/**
+ * Provider-agnostic Response Processing
+ *
+ * JSON cleanup and validation shared by every callable, whichever provider
+ * produced the text.
+ */
+
+import { IDENTIFICATION_SCHEMA, REVIEW_SCHEMA, ReviewResponse, Schema, assertSchema } from "../schemas";
+import { RecommendationLabel, resolveRecommendation, tierForLabel } from "./recommendation-tiers";
+
+/**
+ * Extract clean JSON from a response that may contain markdown code fences
+ * Handles: ```json, ```, various whitespace patterns, and extracts JSON objects
+ */
+export function extractCleanJson(text: string): string {
+  if (!text || text.trim().length === 0) {
+    throw new Error("Empty response received");
+  }
+
+  let cleaned = text.trim();
+
+  // Remove markdown code fences (case insensitive, handles extra whitespace)
+  // Matches: ```json, ```JSON, ``` json, ```javascript, etc.
+  cleaned = cleaned.replace(/^```\s*\w*\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
+
+  // If still not starting with {, try to extract JSON object
+  if (!cleaned.startsWith("{") && !cleaned.startsWith("[")) {
+    const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      cleaned = jsonMatch[0];
+    }
+  }
+
+  return cleaned;
+}
+
+/**
+ * Parses model text as an identification result and re-serializes it
+ *
+ * @param schema - IDENTIFICATION_SCHEMA (ID Call 1) or SEARCH_FINALIZATION_SCHEMA (ID Call 2)
+ * @returns Normalized JSON string with safe coercions applied
+ * @throws Error if the text is not JSON, SchemaValidationError if it violates the schema
+ */
+export function parseIdentificationJson(text: string, schema: Schema = IDENTIFICATION_SCHEMA): string {
+  const parsed = JSON.parse(extractCleanJson(text));
+  return JSON.stringify(assertSchema(schema, parsed, "identification response"));
+}
+
+/**
+ * Parses model text as a review and adds the recommendation tier
+ *
+ * @returns Review with safe coercions applied and a canonical recommendation label
+ * @throws Error if the text is not JSON, SchemaValidationError if it violates the schema
+ */
+export function parseReviewJson(text: string): ReviewResponse {
+  const review = assertSchema<ReviewResponse>(REVIEW_SCHEMA, JSON.parse(extractCleanJson(text)), "review response");
+  review.recommendation_tier = tierForLabel(review.recommendation as RecommendationLabel);
+  return review;
+}
+
+/**
+ * Adds the canonical label and tier to a review cached before tiers were
+ * returned. Content that cannot be resolved is returned unchanged.
+ */
+export function withRecommendationTier(content: string): string {
+  try {
+    const review = JSON.parse(content) as ReviewResponse;
+    if (review.recommendation_tier !== undefined || typeof review.recommendation !== "string") return content;
+    const resolved = resolveRecommendation(review.recommendation);
+    if (!resolved) return content;
+    return JSON.stringify({ ...review, recommendation: resolved.label, recommendation_tier: resolved.tier });
+  } catch {
+    return content;
+  }
+}
+
+/** Outcome of a batch: every album identified, some, or none (including no albums found) */
+export type BatchStatus = "complete" | "partial" | "none";
+
+/**
+ * Adds identified/unresolved counts and an overall status to validated batch
+ * identification output, so a partly readable photo is a result, not an error
+ */
+export function withBatchSummary(content: string): string {
+  const batch = JSON.parse(content) as { albums: Array<{ success: boolean }> };
+  const identifiedCount = batch.albums.filter((album) => album.success).length;
+  const unresolvedCount = batch.albums.length - identifiedCount;
+  const status: BatchStatus = identifiedCount === 0 ? "none" : unresolvedCount > 0 ? "partial" : "complete";
+  return JSON.stringify({ ...batch, status, identifiedCount, unresolvedCount });
+}
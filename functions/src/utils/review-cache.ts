@@ -0,0 +1,157 @@
+/**
+ * Shared Review Cache
+ *
+ * Firestore cache of generated reviews keyed by normalized album identity
+ * (artist, title, year), so popular albums are generated once and then served
+ * to every client of this backend (AlbumScan and Crate alike).
+ *
+ * Recent releases use a shorter TTL because their critical reception is still
+ * settling and they are generated with Search grounding.
+ */
+
+import { createHash } from "crypto";
+import type { Firestore, Timestamp } from "firebase-admin/firestore";
+import { isDefaultLanguage } from "./review-language";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/** TTL for catalog albums, whose reviews rarely change */
+export const REVIEW_CACHE_TTL_MS = 90 * ONE_DAY_MS;
+
+/** TTL for albums in the Search-grounded recent-release range */
+export const RECENT_REVIEW_CACHE_TTL_MS = 7 * ONE_DAY_MS;
+
+export interface AlbumIdentity {
+  artistName: string;
+  albumTitle: string;
+  releaseYear: string;
+}
+
+export interface CachedReview {
+  content: string;
+  /** Provider that generated the review */
+  provider: string;
+  /** Review prompt version that generated the review */
+  promptVersion: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface ReviewCacheDocument {
+  key: string;
+  content: string;
+  // Absent on entries written before provider failover (all Gemini)
+  provider?: string;
+  // Absent on entries written before the prompt registry (all v1)
+  promptVersion?: string;
+  createdAt: Timestamp;
+  // Also the field for a Firestore TTL policy
+  expiresAt: Timestamp;
+}
+
+/**
+ * Normalizes a name for cache matching: case, Latin accents, punctuation,
+ * a leading "The" and trailing edition qualifiers are ignored. Letters and
+ * digits of every script are kept.
+ *
+ * "The Beatles" -> "beatles", "Nevermind (Remastered)" -> "nevermind",
+ * "Кино" -> "кино"
+ */
+export function normalizeAlbumText(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[([][^)\]]*(remaster|deluxe|edition|anniversary|expanded|bonus|mono|stereo)[^)\]]*[)\]]/g, " ")
+    .replace(/&/g, " and ")
+    // Marks stay: in many scripts they are part of the letter (e.g. the dakuten of "ガ")
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^the /, "")
+    .normalize("NFC");
+}
+
+/**
+ * Builds the normalized cache key for an album. Keys include the review
+ * prompt version, so a rollback or pin never serves another version's
+ * output. Localized reviews are keyed by locale too; English locales share
+ * the default (English) key.
+ *
+ * @returns null when the artist or title has no letters or digits to key on
+ */
+export function reviewCacheKey(album: AlbumIdentity, promptVersion: string, locale?: string): string | null {
+  const artist = normalizeAlbumText(album.artistName);
+  const title = normalizeAlbumText(album.albumTitle);
+  if (!artist || !title) return null;
+  const year = /^\d{4}$/.test(album.releaseYear) ? album.releaseYear : "unknown";
+  const key = [artist, title, year, promptVersion];
+  return (locale && !isDefaultLanguage(locale) ? [...key, locale.toLowerCase()] : key).join("|");
+}
+
+/**
+ * Hashes a cache key into a Firestore-safe document ID
+ */
+export function reviewCacheDocId(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export interface ReviewCacheOptions {
+  collection?: string;
+  now?: () => number;
+}
+
+/**
+ * Firestore-backed review cache. Errors are logged and treated as misses so
+ * the cache can never fail a review request.
+ */
+export class ReviewCache {
+  private readonly collection: string;
+  private readonly now: () => number;
+
+  constructor(private readonly db: Firestore, options: ReviewCacheOptions = {}) {
+    this.collection = options.collection ?? "reviewCache";
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<CachedReview | null> {
+    try {
+      const snapshot = await this.db.collection(this.collection).doc(reviewCacheDocId(key)).get();
+      if (!snapshot.exists) return null;
+
+      const doc = snapshot.data() as ReviewCacheDocument;
+      const expiresAt = doc.expiresAt.toMillis();
+      if (expiresAt <= this.now()) return null;
+      return {
+        content: doc.content,
+        provider: doc.provider ?? "gemini",
+        promptVersion: doc.promptVersion ?? "v1",
+        createdAt: doc.createdAt.toMillis(),
+        expiresAt,
+      };
+    } catch (error) {
+      console.error(`[reviewCache] Read failed for "${key}": ${error}`);
+      return null;
+    }
+  }
+
+  async set(
+    key: string,
+    content: string,
+    options: { recentRelease: boolean; provider: string; promptVersion: string }
+  ): Promise<void> {
+    const now = this.now();
+    const ttl = options.recentRelease ? RECENT_REVIEW_CACHE_TTL_MS : REVIEW_CACHE_TTL_MS;
+    try {
+      await this.db.collection(this.collection).doc(reviewCacheDocId(key)).set({
+        key,
+        content,
+        provider: options.provider,
+        promptVersion: options.promptVersion,
+        createdAt: new Date(now),
+        expiresAt: new Date(now + ttl),
+      });
+    } catch (error) {
+      console.error(`[reviewCache] Write failed for "${key}": ${error}`);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Review Language
+ *
+ * Request locales: validation of the BCP-47 tags clients send. Localized
+ * reviews: language names for the prompt, and a check that a
+ * review came back in the requested language. The check is a heuristic over
+ * the review prose (summary and bullets): the share of letters in the
+ * language's script for non-Latin scripts, and common function words for
+ * Latin-script languages. Languages it does not know are not checked.
+ */
+
+import type { ReviewResponse } from "../schemas";
+
+/** Scripts of non-Latin languages, by primary language subtag */
+const LANGUAGE_SCRIPTS: Record<string, RegExp> = {
+  ar: /\p{Script=Arabic}/u,
+  be: /\p{Script=Cyrillic}/u,
+  bg: /\p{Script=Cyrillic}/u,
+  el: /\p{Script=Greek}/u,
+  fa: /\p{Script=Arabic}/u,
+  he: /\p{Script=Hebrew}/u,
+  hi: /\p{Script=Devanagari}/u,
+  ja: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u,
+  ko: /\p{Script=Hangul}/u,
+  ru: /\p{Script=Cyrillic}/u,
+  sr: /\p{Script=Cyrillic}/u,
+  th: /\p{Script=Thai}/u,
+  uk: /\p{Script=Cyrillic}/u,
+  zh: /\p{Script=Han}/u,
+};
+
+/** Frequent function words of Latin-script languages, by primary language subtag */
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "is", "with", "was", "its", "their", "for", "this", "that", "by"],
+  de: ["der", "die", "das", "und", "ist", "mit", "ein", "eine", "nicht", "den", "auf", "sich"],
+  es: ["el", "los", "las", "y", "que", "con", "una", "es", "del", "por", "su", "como"],
+  fr: ["le", "les", "des", "et", "est", "une", "du", "avec", "qui", "sur", "pour", "dans"],
+  it: ["il", "di", "che", "e", "un", "una", "per", "con", "del", "della", "è", "nel"],
+  nl: ["de", "het", "een", "en", "van", "is", "met", "dat", "op", "voor", "zijn", "niet"],
+  pt: ["o", "os", "e", "que", "um", "uma", "com", "do", "da", "não", "para", "seu"],
+  sv: ["och", "är", "att", "det", "en", "ett", "med", "som", "för", "på", "av", "den"],
+};
+
+/** Longest locale tag accepted from clients */
+const MAX_LOCALE_LENGTH = 35;
+
+/** Share of letters that must be in a non-Latin language's script (names and titles may be Latin) */
+const MIN_SCRIPT_SHARE = 0.3;
+
+/** English function words needed before a Latin-script review is judged English */
+const MIN_ENGLISH_WORDS = 5;
+
+/**
+ * A review that is not in the requested language, carrying the parsed review
+ * so callers can still serve it once retries are exhausted
+ */
+export class LanguageMismatchError extends Error {
+  constructor(readonly locale: string, readonly review: ReviewResponse) {
+    super(`Review prose must be written in ${languageName(locale) ?? locale}`);
+    this.name = "LanguageMismatchError";
+  }
+}
+
+/**
+ * Canonical form of a client's locale tag: "pt-br" -> "pt-BR"
+ *
+ * @returns the canonical tag, or null if the value is not a BCP-47 language tag
+ */
+export function normalizeLocale(value: unknown): string | null {
+  if (typeof value !== "string" || value.length > MAX_LOCALE_LENGTH ||
+      !/^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/.test(value)) {
+    return null;
+  }
+  try {
+    return Intl.getCanonicalLocales(value)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Primary language subtag, lowercased: "pt-BR" -> "pt" */
+export function primaryLanguage(locale: string): string {
+  return locale.split("-")[0].toLowerCase();
+}
+
+/** True without a locale or for any English locale, which get the default English review */
+export function isDefaultLanguage(locale?: string): boolean {
+  return locale === undefined || primaryLanguage(locale) === "en";
+}
+
+/**
+ * English name of a locale's language, e.g. "Brazilian Portuguese"
+ *
+ * @returns null if the language is unknown
+ */
+export function languageName(locale: string): string | null {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language", fallback: "none" }).of(locale) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function countWords(words: string[], vocabulary: string[]): number {
+  const known = new Set(vocabulary);
+  return words.filter((word) => known.has(word)).length;
+}
+
+/**
+ * Whether a review's prose is in a locale's language
+ *
+ * @returns null when the language cannot be checked
+ */
+export function reviewLanguageMatches(review: ReviewResponse, locale: string): boolean | null {
+  const language = primaryLanguage(locale);
+  const prose = [review.context_summary, ...review.context_bullets].join(" ");
+
+  const script = LANGUAGE_SCRIPTS[language];
+  if (script) {
+    const letters = prose.match(/\p{L}/gu) ?? [];
+    if (letters.length === 0) return null;
+    return letters.filter((letter) => script.test(letter)).length / letters.length >= MIN_SCRIPT_SHARE;
+  }
+
+  const vocabulary = FUNCTION_WORDS[language];
+  if (!vocabulary || language === "en") return null;
+  const words = prose.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const english = countWords(words, FUNCTION_WORDS.en);
+  return english < MIN_ENGLISH_WORDS || countWords(words, vocabulary) >= english;
+}
+
+/**
+ * @throws LanguageMismatchError if the review is checkably not in the locale's language
+ */
+export function assertReviewLanguage(review: ReviewResponse, locale: string): void {
+  if (reviewLanguageMatches(review, locale) === false) {
+    throw new LanguageMismatchError(locale, review);
+  }
+}
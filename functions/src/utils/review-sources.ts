@@ -0,0 +1,198 @@
+/**
+ * Review Sources
+ *
+ * Turns search grounding into the structured `sources` of a review: outlet
+ * names from a maintained domain map, and page URLs in place of the opaque
+ * redirect links Google Search grounding returns.
+ */
+
+import { CitedSource, GroundingChunk } from "./gemini-helpers";
+
+/** Host of the redirect links in Google Search grounding chunks */
+export const GROUNDING_REDIRECT_HOST = "vertexaisearch.cloud.google.com";
+
+/**
+ * Outlet names by registrable domain. Subdomains match their parent
+ * ("en.wikipedia.org" -> Wikipedia).
+ */
+export const OUTLETS_BY_DOMAIN: Readonly<Record<string, string>> = {
+  "albumoftheyear.org": "Album of the Year",
+  "allmusic.com": "AllMusic",
+  "avclub.com": "The A.V. Club",
+  "bandcamp.com": "Bandcamp",
+  "bbc.co.uk": "BBC",
+  "bbc.com": "BBC",
+  "billboard.com": "Billboard",
+  "clashmusic.com": "Clash",
+  "consequence.net": "Consequence",
+  "discogs.com": "Discogs",
+  "exclaim.ca": "Exclaim!",
+  "genius.com": "Genius",
+  "independent.co.uk": "The Independent",
+  "loudersound.com": "Louder",
+  "metacritic.com": "Metacritic",
+  "mojo4music.com": "Mojo",
+  "musicbrainz.org": "MusicBrainz",
+  "nme.com": "NME",
+  "npr.org": "NPR",
+  "nytimes.com": "The New York Times",
+  "pastemagazine.com": "Paste",
+  "pitchfork.com": "Pitchfork",
+  "popmatters.com": "PopMatters",
+  "rateyourmusic.com": "Rate Your Music",
+  "residentadvisor.net": "Resident Advisor",
+  "ra.co": "Resident Advisor",
+  "rollingstone.com": "Rolling Stone",
+  "slantmagazine.com": "Slant",
+  "spin.com": "Spin",
+  "sputnikmusic.com": "Sputnikmusic",
+  "stereogum.com": "Stereogum",
+  "telegraph.co.uk": "The Telegraph",
+  "theguardian.com": "The Guardian",
+  "thelineofbestfit.com": "The Line of Best Fit",
+  "thequietus.com": "The Quietus",
+  "uncut.co.uk": "Uncut",
+  "vulture.com": "Vulture",
+  "wikipedia.org": "Wikipedia",
+};
+
+export interface ReviewSource extends CitedSource {
+  /** Outlet name, e.g. "Rolling Stone"; the domain for outlets not in the map */
+  outlet: string;
+  /** Hostname without "www.", e.g. "en.wikipedia.org" */
+  domain: string;
+  /** Page URL, or the grounding redirect if it could not be resolved */
+  url: string;
+  /** Page title, when grounding reports more than the domain */
+  title: string | null;
+  /** Indices of the bullets citing this source */
+  citedByBullets: number[];
+}
+
+/**
+ * Resolves a grounding redirect link to the URL it points at
+ *
+ * @returns the target URL, or null if it cannot be resolved
+ */
+export type RedirectResolver = (url: string) => Promise<string | null>;
+
+/** Minimal fetch signature for HEAD requests that do not follow redirects */
+export type HttpHead = (
+  url: string,
+  init: { method: "HEAD"; redirect: "manual"; signal?: AbortSignal }
+) => Promise<{ status: number; headers: { get(name: string): string | null } }>;
+
+export interface RedirectResolverOptions {
+  fetch?: HttpHead;
+  timeoutMs?: number;
+}
+
+const DOMAIN_PATTERN = /^[\w-]+(\.[\w-]+)+$/;
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export function isGroundingRedirect(url: string): boolean {
+  return hostnameOf(url) === GROUNDING_REDIRECT_HOST;
+}
+
+/**
+ * Outlet name for a domain, matching subdomains to their parent in
+ * OUTLETS_BY_DOMAIN; unknown domains are returned as they are
+ */
+export function outletForDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/^www\./, "").split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const outlet = OUTLETS_BY_DOMAIN[labels.slice(i).join(".")];
+    if (outlet) return outlet;
+  }
+  return labels.join(".");
+}
+
+/**
+ * The site a domain belongs to, so subdomains count together
+ * ("en.wikipedia.org" -> "wikipedia.org", "music.bbc.co.uk" -> "bbc.co.uk").
+ * Mapped outlets use their OUTLETS_BY_DOMAIN key; otherwise the last two
+ * labels, or three under a two-letter country suffix like "co.uk".
+ */
+export function siteDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/^www\./, "").split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const parent = labels.slice(i).join(".");
+    if (OUTLETS_BY_DOMAIN[parent]) return parent;
+  }
+  const countrySecondLevel = labels.length > 2 && labels[labels.length - 1].length === 2 &&
+    labels[labels.length - 2].length <= 3;
+  return labels.slice(countrySecondLevel ? -3 : -2).join(".");
+}
+
+/**
+ * Resolver that reads the Location header of a HEAD request. Failures and
+ * timeouts resolve to null, so a slow redirect never fails a review.
+ */
+export function createRedirectResolver(options: RedirectResolverOptions = {}): RedirectResolver {
+  const head = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? 2000;
+  return async (url) => {
+    try {
+      const response = await head(url, { method: "HEAD", redirect: "manual", signal: AbortSignal.timeout(timeoutMs) });
+      const location = response.status >= 300 && response.status < 400 ? response.headers.get("location") : null;
+      return location && /^https?:\/\//i.test(location) ? location : null;
+    } catch {
+      return null;
+    }
+  };
+}
+
+/**
+ * Builds the structured sources of a grounded review: one per distinct page,
+ * in grounding order, with the bullets citing it. Redirect links are
+ * resolved in parallel; ones that cannot be resolved are kept, with the
+ * domain taken from the chunk title Gemini gives them.
+ *
+ * @param chunks - Grounding chunks
+ * @param citations - Per bullet, the indices of the chunks it cites (see citedChunkIndices)
+ * @param resolve - Redirect resolver
+ */
+export async function buildReviewSources(
+  chunks: GroundingChunk[],
+  citations: number[][],
+  resolve: RedirectResolver
+): Promise<ReviewSource[]> {
+  const resolved = await Promise.all(chunks.map(async (chunk) => {
+    const uri = chunk.web?.uri;
+    if (!uri) return null;
+    return isGroundingRedirect(uri) ? (await resolve(uri)) ?? uri : uri;
+  }));
+
+  const sources = new Map<string, ReviewSource>();
+  chunks.forEach((chunk, index) => {
+    const url = resolved[index];
+    if (!url) return;
+    const citedByBullets = citations.flatMap((cited, bullet) => cited.includes(index) ? [bullet] : []);
+    const existing = sources.get(url);
+    if (existing) {
+      existing.citedByBullets = [...new Set([...existing.citedByBullets, ...citedByBullets])].sort((a, b) => a - b);
+      return;
+    }
+
+    const title = chunk.web?.title?.trim() || null;
+    const titleIsDomain = title !== null && DOMAIN_PATTERN.test(title);
+    const host = hostnameOf(url);
+    const domain = (host && host !== GROUNDING_REDIRECT_HOST ? host : titleIsDomain ? title.toLowerCase() : host ?? "")
+      .replace(/^www\./, "");
+    sources.set(url, {
+      outlet: outletForDomain(domain),
+      domain,
+      url,
+      title: titleIsDomain ? null : title,
+      citedByBullets,
+    });
+  });
+  return [...sources.values()];
+}
@@ -0,0 +1,85 @@
+/**
+ * Review Streaming
+ *
+ * Turns a review's JSON text, as it is generated, into progressive events
+ * for the streaming review endpoint:
+ * - summary: context_summary, once its string is complete
+ * - bullet: each context_bullets entry, once its string is complete
+ * - final: the validated review in the callable's response envelope
+ *   (citations injected), which clients should treat as authoritative
+ * - error: the pipeline failed; carries the HttpsError code and message
+ *
+ * Events are sent as Server-Sent Events.
+ */
+
+export type ReviewStreamEvent =
+  | { event: "summary"; data: { context_summary: string } }
+  | { event: "bullet"; data: { index: number; text: string } }
+  | { event: "final"; data: unknown }
+  | { event: "error"; data: { code: string; message: string; details?: unknown } };
+
+const SUMMARY_PATTERN = /"context_summary"\s*:\s*"((?:[^"\\]|\\.)*)"/;
+const BULLETS_START_PATTERN = /"context_bullets"\s*:\s*\[/;
+
+/**
+ * Complete JSON string literals at the start of an array body, stopping at
+ * the first incomplete one
+ */
+function completeArrayStrings(body: string): string[] {
+  const items: string[] = [];
+  let position = 0;
+  for (;;) {
+    while (position < body.length && /[\s,]/.test(body[position])) position++;
+    if (body[position] !== "\"") return items;
+
+    let end = position + 1;
+    while (end < body.length && body[end] !== "\"") {
+      end += body[end] === "\\" ? 2 : 1;
+    }
+    if (end >= body.length) return items;
+
+    items.push(JSON.parse(body.slice(position, end + 1)) as string);
+    position = end + 1;
+  }
+}
+
+/**
+ * Incremental parser for streamed review JSON. Each field is emitted once,
+ * as soon as it is complete; malformed text simply produces no events.
+ */
+export class ReviewStreamParser {
+  private text = "";
+  private summarySent = false;
+  private bulletsSent = 0;
+
+  push(delta: string): ReviewStreamEvent[] {
+    this.text += delta;
+    const events: ReviewStreamEvent[] = [];
+
+    if (!this.summarySent) {
+      const match = this.text.match(SUMMARY_PATTERN);
+      if (match) {
+        this.summarySent = true;
+        events.push({ event: "summary", data: { context_summary: JSON.parse(`"${match[1]}"`) as string } });
+      }
+    }
+
+    const bulletsStart = this.text.search(BULLETS_START_PATTERN);
+    if (bulletsStart >= 0) {
+      const body = this.text.slice(this.text.indexOf("[", bulletsStart) + 1);
+      const bullets = completeArrayStrings(body);
+      for (; this.bulletsSent < bullets.length; this.bulletsSent++) {
+        events.push({ event: "bullet", data: { index: this.bulletsSent, text: bullets[this.bulletsSent] } });
+      }
+    }
+
+    return events;
+  }
+}
+
+/**
+ * Formats one Server-Sent Event
+ */
+export function formatSseEvent(event: ReviewStreamEvent): string {
+  return `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
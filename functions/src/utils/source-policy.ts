@@ -0,0 +1,99 @@
+/**
+ * Review Source Policy
+ *
+ * Enforces the review prompt's source rules on grounded reviews, since the
+ * model does not always follow them: sources are ranked by the priority
+ * outlets, capped per site, and scored for diversity so grounding quality
+ * can be monitored.
+ */
+
+import { ReviewSource, siteDomain } from "./review-sources";
+
+/** Priority outlets by site domain, most preferred first (as listed in the review prompt) */
+export const PRIORITY_DOMAINS = [
+  "metacritic.com",
+  "albumoftheyear.org",
+  "pitchfork.com",
+  "rollingstone.com",
+  "allmusic.com",
+  "theguardian.com",
+];
+
+/** Most sources kept from one site, subdomains included */
+export const MAX_SOURCES_PER_SITE = 2;
+
+/** Priority outlets a review should cite */
+export const MIN_PRIORITY_OUTLETS = 3;
+
+export interface SourceDiversity {
+  /**
+   * 0 (one site, no priority outlets) to 1: the mean of priority coverage
+   * (priority outlets / MIN_PRIORITY_OUTLETS, capped at 1) and site spread
+   * (distinct sites / sources)
+   */
+  score: number;
+  /** Sources kept after the per-site cap */
+  sourceCount: number;
+  /** Distinct sites among the kept sources */
+  siteCount: number;
+  /** Distinct priority outlets among the kept sources */
+  priorityOutletCount: number;
+  /** Sources dropped for exceeding MAX_SOURCES_PER_SITE */
+  droppedCount: number;
+  /** True when at least MIN_PRIORITY_OUTLETS priority outlets were kept and none were dropped */
+  meetsPolicy: boolean;
+}
+
+function priorityRank(source: ReviewSource): number {
+  const rank = PRIORITY_DOMAINS.indexOf(siteDomain(source.domain));
+  return rank < 0 ? PRIORITY_DOMAINS.length : rank;
+}
+
+/**
+ * Ranks sources by priority outlet (then cited before uncited, then
+ * grounding order) and keeps at most MAX_SOURCES_PER_SITE per site
+ *
+ * @returns the kept sources, most preferred first, and their diversity
+ */
+export function applySourcePolicy(sources: ReviewSource[]): { sources: ReviewSource[]; diversity: SourceDiversity } {
+  const ranked = sources
+    .map((source, index) => ({ source, index, rank: priorityRank(source) }))
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      Number(a.source.citedByBullets.length === 0) - Number(b.source.citedByBullets.length === 0) ||
+      a.index - b.index
+    );
+
+  const perSite = new Map<string, number>();
+  const kept: ReviewSource[] = [];
+  for (const { source } of ranked) {
+    const site = siteDomain(source.domain);
+    const count = perSite.get(site) ?? 0;
+    if (count >= MAX_SOURCES_PER_SITE) continue;
+    perSite.set(site, count + 1);
+    kept.push(source);
+  }
+
+  const priorityOutletCount = [...perSite.keys()].filter((site) => PRIORITY_DOMAINS.includes(site)).length;
+  const droppedCount = sources.length - kept.length;
+  const coverage = Math.min(priorityOutletCount / MIN_PRIORITY_OUTLETS, 1);
+  const spread = kept.length > 0 ? perSite.size / kept.length : 0;
+
+  return {
+    sources: kept,
+    diversity: {
+      score: Math.round(((coverage + spread) / 2) * 100) / 100,
+      sourceCount: kept.length,
+      siteCount: perSite.size,
+      priorityOutletCount,
+      droppedCount,
+      meetsPolicy: priorityOutletCount >= MIN_PRIORITY_OUTLETS && droppedCount === 0,
+    },
+  };
+}
+
+/** One log line per review, e.g. "score 0.83 (5 sources, 4 sites, 3 priority outlets, 1 dropped)" */
+export function describeDiversity(diversity: SourceDiversity): string {
+  return `score ${diversity.score.toFixed(2)} (${diversity.sourceCount} sources, ${diversity.siteCount} sites, ` +
+    `${diversity.priorityOutletCount} priority outlets, ${diversity.droppedCount} dropped)`;
+}
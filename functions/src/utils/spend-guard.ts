@@ -0,0 +1,119 @@
+/**
+ * Global Spend Circuit Breaker
+ *
+ * Compares estimated spend from the usage ledger against daily and monthly
+ * budgets and degrades in stages as spend approaches them:
+ * - normal: no restrictions
+ * - no-search: Google Search grounding off for identification and reviews
+ * - cache-only: reviews served from cache only
+ * - refuse: every model call refused (cache hits are still served)
+ *
+ * Spend is re-read from the usage ledger's sharded totals at most once per
+ * refresh interval per instance, so the check adds no latency to most calls.
+ * Spend whose totals write failed still counts on the instance that made the
+ * call (see UsageLedger.getSpend).
+ */
+
+import type { SpendTotals } from "./usage-ledger";
+
+export type SpendMode = "normal" | "no-search" | "cache-only" | "refuse";
+
+export const DEFAULT_SPEND_REFRESH_MS = 60 * 1000;
+
+export interface SpendBudget {
+  /** USD per UTC day; 0 disables the daily budget */
+  dailyUsd: number;
+  /** USD per UTC month; 0 disables the monthly budget */
+  monthlyUsd: number;
+  /** Percent of budget at which search grounding is turned off */
+  noSearchPercent: number;
+  /** Percent of budget at which only cached reviews are served */
+  cacheOnlyPercent: number;
+  /** Percent of budget at which model calls are refused */
+  refusePercent: number;
+}
+
+const MODE_SEVERITY: Record<SpendMode, number> = {
+  "normal": 0,
+  "no-search": 1,
+  "cache-only": 2,
+  "refuse": 3,
+};
+
+/**
+ * Whether a mode is at least as restrictive as another
+ */
+export function spendModeAtLeast(mode: SpendMode, threshold: SpendMode): boolean {
+  return MODE_SEVERITY[mode] >= MODE_SEVERITY[threshold];
+}
+
+/**
+ * Highest share of either budget used so far, as a percentage
+ */
+export function budgetUsedPercent(spend: SpendTotals, budget: SpendBudget): number {
+  const daily = budget.dailyUsd > 0 ? (spend.dailyUsd / budget.dailyUsd) * 100 : 0;
+  const monthly = budget.monthlyUsd > 0 ? (spend.monthlyUsd / budget.monthlyUsd) * 100 : 0;
+  return Math.max(daily, monthly);
+}
+
+/**
+ * Maps spend against budget to a degradation stage
+ */
+export function spendModeFor(spend: SpendTotals, budget: SpendBudget): SpendMode {
+  const used = budgetUsedPercent(spend, budget);
+  if (used >= budget.refusePercent) return "refuse";
+  if (used >= budget.cacheOnlyPercent) return "cache-only";
+  if (used >= budget.noSearchPercent) return "no-search";
+  return "normal";
+}
+
+export interface SpendGuardOptions {
+  refreshMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Caches spend totals per instance and logs every mode transition.
+ * Fails open: if spend cannot be read, the last known totals are used.
+ */
+export class SpendGuard {
+  private readonly refreshMs: number;
+  private readonly now: () => number;
+  private spend: SpendTotals = { dailyUsd: 0, monthlyUsd: 0 };
+  private fetchedAt: number | null = null;
+  private lastMode: SpendMode = "normal";
+
+  constructor(
+    private readonly readSpend: () => Promise<SpendTotals>,
+    options: SpendGuardOptions = {}
+  ) {
+    this.refreshMs = options.refreshMs ?? DEFAULT_SPEND_REFRESH_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  async mode(budget: SpendBudget): Promise<SpendMode> {
+    if (budget.dailyUsd <= 0 && budget.monthlyUsd <= 0) return "normal";
+
+    const now = this.now();
+    if (this.fetchedAt === null || now - this.fetchedAt >= this.refreshMs) {
+      try {
+        this.spend = await this.readSpend();
+      } catch (error) {
+        console.error(`[spendGuard] Spend read failed, using last known totals: ${error}`);
+      }
+      this.fetchedAt = now;
+    }
+
+    const mode = spendModeFor(this.spend, budget);
+    if (mode !== this.lastMode) {
+      const log = spendModeAtLeast(mode, this.lastMode) ? console.warn : console.log;
+      log(
+        `[spendGuard] Mode transition: ${this.lastMode} -> ${mode} ` +
+        `(daily $${this.spend.dailyUsd.toFixed(2)} of $${budget.dailyUsd}, ` +
+        `monthly $${this.spend.monthlyUsd.toFixed(2)} of $${budget.monthlyUsd})`
+      );
+      this.lastMode = mode;
+    }
+    return mode;
+  }
+}
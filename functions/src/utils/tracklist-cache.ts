@@ -0,0 +1,68 @@
+/**
+ * Shared Tracklist Cache
+ *
+ * Firestore cache of MusicBrainz tracklists keyed by query (MBID or
+ * normalized album names). Tracklists rarely change, and each lookup costs
+ * several throttled MusicBrainz requests.
+ */
+
+import type { Firestore, Timestamp } from "firebase-admin/firestore";
+import { reviewCacheDocId } from "./review-cache";
+import { Tracklist } from "./tracklist";
+
+/** TTL for cached tracklists */
+export const TRACKLIST_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface TracklistCacheDocument {
+  key: string;
+  tracklist: Tracklist;
+  createdAt: Timestamp;
+  // Also the field for a Firestore TTL policy
+  expiresAt: Timestamp;
+}
+
+export interface TracklistCacheOptions {
+  collection?: string;
+  now?: () => number;
+}
+
+/**
+ * Firestore-backed tracklist cache. Errors are logged and treated as misses
+ * so the cache can never fail a tracklist request.
+ */
+export class TracklistCache {
+  private readonly collection: string;
+  private readonly now: () => number;
+
+  constructor(private readonly db: Firestore, options: TracklistCacheOptions = {}) {
+    this.collection = options.collection ?? "tracklistCache";
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<Tracklist | null> {
+    try {
+      const snapshot = await this.db.collection(this.collection).doc(reviewCacheDocId(key)).get();
+      if (!snapshot.exists) return null;
+
+      const doc = snapshot.data() as TracklistCacheDocument;
+      return doc.expiresAt.toMillis() > this.now() ? doc.tracklist : null;
+    } catch (error) {
+      console.error(`[tracklistCache] Read failed for "${key}": ${error}`);
+      return null;
+    }
+  }
+
+  async set(key: string, tracklist: Tracklist): Promise<void> {
+    const now = this.now();
+    try {
+      await this.db.collection(this.collection).doc(reviewCacheDocId(key)).set({
+        key,
+        tracklist,
+        createdAt: new Date(now),
+        expiresAt: new Date(now + TRACKLIST_CACHE_TTL_MS),
+      });
+    } catch (error) {
+      console.error(`[tracklistCache] Write failed for "${key}": ${error}`);
+    }
+  }
+}
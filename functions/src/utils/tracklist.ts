@@ -0,0 +1,181 @@
+/**
+ * Verified Tracklists
+ *
+ * Disc/track numbers, titles and durations from MusicBrainz, so clients can
+ * show an authoritative tracklist and link a review's key_tracks to it.
+ *
+ * An album has many releases (pressings, regions, reissues). Unless the
+ * client names a specific release, the canonical one is an official release
+ * from the album's first year, preferring CD/digital media whose track
+ * numbering is not split into vinyl sides.
+ */
+
+import { normalizeAlbumText } from "./review-cache";
+import {
+  MusicBrainzClient,
+  MusicBrainzRelease,
+  artistCreditName,
+  selectRelease,
+} from "./musicbrainz";
+
+export interface Track {
+  /** 1-based position on its disc */
+  position: number;
+  /** As printed, e.g. "3" or "B1" */
+  number: string;
+  title: string;
+  durationMs: number | null;
+  recordingMbid: string | null;
+}
+
+export interface Disc {
+  /** 1-based disc number */
+  position: number;
+  /** e.g. "CD", "12\" Vinyl", "Digital Media" */
+  format: string | null;
+  title: string | null;
+  tracks: Track[];
+}
+
+export interface Tracklist {
+  releaseMbid: string;
+  releaseGroupMbid: string | null;
+  artistName: string;
+  albumTitle: string;
+  date: string | null;
+  country: string | null;
+  discs: Disc[];
+  trackCount: number;
+  /** Null when any track's duration is unknown */
+  totalDurationMs: number | null;
+}
+
+/** A release or release group MBID, or the album's names */
+export type TracklistQuery = { mbid: string } | { artistName: string; albumTitle: string };
+
+/** Formats without vinyl/cassette side numbering, most preferred first */
+const PREFERRED_FORMATS = ["CD", "Digital Media"];
+
+/**
+ * Cache key for a query: the MBID, or the normalized artist and title
+ *
+ * @returns null when the artist or title has no letters or digits to key on
+ */
+export function tracklistCacheKey(query: TracklistQuery): string | null {
+  if ("mbid" in query) return `mbid:${query.mbid.toLowerCase()}`;
+  const artist = normalizeAlbumText(query.artistName);
+  const title = normalizeAlbumText(query.albumTitle);
+  return artist && title ? `album:${artist}|${title}` : null;
+}
+
+function formatRank(release: MusicBrainzRelease): number {
+  const formats = (release.media ?? []).map((medium) => medium.format ?? "");
+  if (formats.length === 0) return PREFERRED_FORMATS.length;
+  return Math.max(...formats.map((format) => {
+    const rank = PREFERRED_FORMATS.indexOf(format);
+    return rank < 0 ? PREFERRED_FORMATS.length : rank;
+  }));
+}
+
+/**
+ * Completes a partial date ("1991", "1991-09") to the end of its period, so
+ * it sorts after the precise dates it may include
+ *
+ * @returns YYYY-MM-DD, or null if the date is missing or malformed
+ */
+function normalizeReleaseDate(date: string | undefined): string | null {
+  const match = date?.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  return match ? `${match[1]}-${match[2] ?? "12"}-${match[3] ?? "31"}` : null;
+}
+
+/**
+ * Picks the canonical release of a release group: official releases first,
+ * then, among those from the group's first release year, CD/digital over
+ * other formats, then the earliest date. Undated releases are used only when
+ * none is dated.
+ */
+export function selectCanonicalRelease(releases: MusicBrainzRelease[]): MusicBrainzRelease | null {
+  const official = releases.filter((release) => release.status === "Official");
+  const pool = (official.length > 0 ? official : releases)
+    .map((release) => ({ release, date: normalizeReleaseDate(release.date) }));
+  const firstYear = pool.reduce<string | null>((year, { date }) => {
+    const releaseYear = date?.slice(0, 4) ?? null;
+    return releaseYear && (!year || releaseYear < year) ? releaseYear : year;
+  }, null);
+  const candidates = firstYear ? pool.filter(({ date }) => date?.startsWith(firstYear)) : pool;
+  return candidates.sort((a, b) =>
+    formatRank(a.release) - formatRank(b.release) ||
+    (a.date === b.date ? 0 : (a.date as string) < (b.date as string) ? -1 : 1)
+  )[0]?.release ?? null;
+}
+
+/**
+ * Shapes a release (looked up with recordings) into a tracklist
+ */
+export function toTracklist(release: MusicBrainzRelease): Tracklist {
+  const discs: Disc[] = (release.media ?? []).map((medium) => ({
+    position: medium.position,
+    format: medium.format ?? null,
+    title: medium.title || null,
+    tracks: (medium.tracks ?? []).map((track) => ({
+      position: track.position,
+      number: track.number,
+      title: track.title,
+      durationMs: track.length ?? track.recording?.length ?? null,
+      recordingMbid: track.recording?.id ?? null,
+    })),
+  }));
+  const tracks = discs.flatMap((disc) => disc.tracks);
+  const durations = tracks.map((track) => track.durationMs);
+
+  return {
+    releaseMbid: release.id,
+    releaseGroupMbid: release["release-group"]?.id ?? null,
+    artistName: artistCreditName(release["artist-credit"]),
+    albumTitle: release.title,
+    date: release.date || null,
+    country: release.country ?? null,
+    discs,
+    trackCount: tracks.length,
+    totalDurationMs: tracks.length > 0 && durations.every((duration) => duration !== null) ?
+      (durations as number[]).reduce((sum, duration) => sum + duration, 0) :
+      null,
+  };
+}
+
+/**
+ * Canonical release of a release group, or null if the group has none
+ */
+async function canonicalReleaseId(client: MusicBrainzClient, releaseGroupMbid: string): Promise<string | null> {
+  return selectCanonicalRelease(await client.browseReleases(releaseGroupMbid))?.id ?? null;
+}
+
+/**
+ * Looks up a tracklist. A release MBID returns that exact release; a release
+ * group MBID or album names return the group's canonical release.
+ *
+ * @returns null if MusicBrainz has no matching album
+ * @throws MusicBrainzError if MusicBrainz is unreachable or errors
+ */
+export async function fetchTracklist(client: MusicBrainzClient, query: TracklistQuery): Promise<Tracklist | null> {
+  let releaseId: string | null;
+  if ("mbid" in query) {
+    const release = await client.getRelease(query.mbid);
+    if (release) return toTracklist(release);
+    releaseId = await canonicalReleaseId(client, query.mbid);
+  } else {
+    const match = selectRelease(
+      await client.searchReleases(query.artistName, query.albumTitle),
+      query.artistName,
+      query.albumTitle
+    );
+    const releaseGroupId = match?.["release-group"]?.id;
+    releaseId = releaseGroupId ?
+      await canonicalReleaseId(client, releaseGroupId) ?? match?.id ?? null :
+      match?.id ?? null;
+  }
+
+  if (!releaseId) return null;
+  const release = await client.getRelease(releaseId);
+  return release ? toTracklist(release) : null;
+}
@@ -0,0 +1,341 @@
+/**
+ * Token Usage and Cost Ledger
+ *
+ * Every model call's token usage (plus search grounding charges) is priced
+ * with a per-model table and added to three sets of counters:
+ * - usageLedger: per device, function, provider and UTC day
+ * - usageDaily: per day, subscription tier, function and provider, small
+ *   enough to answer "what did Ultra users cost us last week" directly;
+ *   sharded because every call to a popular function increments one
+ * - usageTotals: global spend per day and per month, for budget checks,
+ *   sharded because every call in the project increments them
+ *
+ * Costs are estimates from list prices; billing dashboards stay authoritative.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { Firestore } from "firebase-admin/firestore";
+import type { ProviderName, UsageReport } from "../providers";
+import { utcDayKey } from "./entitlements";
+
+export const USAGE_LEDGER_TTL_MS = 400 * 24 * 60 * 60 * 1000;
+
+/**
+ * Counter documents per spend total. Each write picks one at random, keeping
+ * every document well under Firestore's sustained write rate of about one
+ * per second; reads sum them.
+ */
+export const SPEND_TOTAL_SHARDS = 10;
+
+/** Counter documents per daily rollup, picked at random like the spend total shards */
+export const ROLLUP_SHARDS = 10;
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  inputPerMillion: number;
+  /** USD per million output tokens (including thinking tokens) */
+  outputPerMillion: number;
+  /** USD per thousand search-grounded queries/calls */
+  searchPerThousand: number;
+}
+
+/**
+ * List prices, matched by longest model-name prefix so dated snapshots
+ * (e.g. "gpt-4o-2024-08-06") resolve to their family
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-flash": { inputPerMillion: 0.5, outputPerMillion: 3, searchPerThousand: 14 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10, searchPerThousand: 0 },
+  "gpt-4o-search-preview": { inputPerMillion: 2.5, outputPerMillion: 10, searchPerThousand: 25 },
+};
+
+/** Used for models missing from the table so unknown models are never free */
+const PROVIDER_FALLBACK_PRICES: Record<ProviderName, ModelPrice> = {
+  gemini: MODEL_PRICES["gemini-3-flash"],
+  openai: MODEL_PRICES["gpt-4o"],
+};
+
+/**
+ * Looks up the price for a model, falling back to the provider default
+ */
+export function priceFor(model: string, provider: ProviderName): ModelPrice {
+  const match = Object.keys(MODEL_PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : PROVIDER_FALLBACK_PRICES[provider];
+}
+
+/**
+ * Estimated cost of one call in USD
+ */
+export function estimateCostUsd(usage: UsageReport, model: string, provider: ProviderName): number {
+  const price = priceFor(model, provider);
+  return (
+    (usage.inputTokens / 1_000_000) * price.inputPerMillion +
+    (usage.outputTokens / 1_000_000) * price.outputPerMillion +
+    (usage.searchQueries / 1000) * price.searchPerThousand
+  );
+}
+
+export interface UsageEvent {
+  deviceId: string;
+  functionName: string;
+  provider: ProviderName;
+  model: string;
+  /** Subscription tier at call time, or "unknown" if it could not be resolved */
+  tier: string;
+  usage: UsageReport;
+  /** Set when the call was a self-repair retry of an unusable response */
+  retryReason?: string;
+  /**
+   * Set when deviceId is shared by many installs; the call then counts in
+   * the rollups and totals but gets no per-device ledger entry
+   */
+  sharedIdentity?: boolean;
+}
+
+interface UsageCounters {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  searchQueries: number;
+  /** Calls that were self-repair retries */
+  retries: number;
+  costUsd: number;
+}
+
+export interface DailyRollup extends UsageCounters {
+  /** UTC day, YYYY-MM-DD */
+  day: string;
+  tier: string;
+  functionName: string;
+  provider: string;
+  /** Self-repair retries by reason */
+  retryReasons?: Record<string, number>;
+}
+
+export interface RollupFilter {
+  /** First UTC day (inclusive), YYYY-MM-DD */
+  from: string;
+  /** Last UTC day (inclusive), YYYY-MM-DD */
+  to: string;
+  tier?: string;
+  functionName?: string;
+  provider?: string;
+}
+
+export interface UsageSummary {
+  rows: DailyRollup[];
+  totals: UsageCounters;
+}
+
+/**
+ * Merges the shards of each rollup (same day, tier, function and provider)
+ * into one row
+ */
+export function mergeRollupShards(rows: DailyRollup[]): DailyRollup[] {
+  const merged = new Map<string, DailyRollup>();
+  for (const row of rows) {
+    const key = [row.day, row.tier, row.functionName, row.provider].join("|");
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...row, ...(row.retryReasons ? { retryReasons: { ...row.retryReasons } } : {}) });
+      continue;
+    }
+    existing.calls += row.calls;
+    existing.inputTokens += row.inputTokens;
+    existing.outputTokens += row.outputTokens;
+    existing.searchQueries += row.searchQueries;
+    existing.retries = (existing.retries ?? 0) + (row.retries ?? 0);
+    existing.costUsd += row.costUsd;
+    for (const [reason, count] of Object.entries(row.retryReasons ?? {})) {
+      existing.retryReasons = { ...existing.retryReasons, [reason]: (existing.retryReasons?.[reason] ?? 0) + count };
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Filters rollups and totals them
+ */
+export function summarizeRollups(rows: DailyRollup[], filter: RollupFilter): UsageSummary {
+  const matching = rows
+    .filter((row) =>
+      row.day >= filter.from &&
+      row.day <= filter.to &&
+      (filter.tier === undefined || row.tier === filter.tier) &&
+      (filter.functionName === undefined || row.functionName === filter.functionName) &&
+      (filter.provider === undefined || row.provider === filter.provider)
+    )
+    .sort((a, b) =>
+      a.day.localeCompare(b.day) ||
+      a.tier.localeCompare(b.tier) ||
+      a.functionName.localeCompare(b.functionName) ||
+      a.provider.localeCompare(b.provider)
+    );
+
+  const totals: UsageCounters = { calls: 0, inputTokens: 0, outputTokens: 0, searchQueries: 0, retries: 0, costUsd: 0 };
+  for (const row of matching) {
+    totals.calls += row.calls;
+    totals.inputTokens += row.inputTokens;
+    totals.outputTokens += row.outputTokens;
+    totals.searchQueries += row.searchQueries;
+    // Rollups written before self-repair have no retries field
+    totals.retries += row.retries ?? 0;
+    totals.costUsd += row.costUsd;
+  }
+  return { rows: matching, totals };
+}
+
+export interface SpendTotals {
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+export interface UsageLedgerOptions {
+  collection?: string;
+  rollupCollection?: string;
+  totalsCollection?: string;
+  now?: () => number;
+}
+
+/**
+ * Firestore-backed usage ledger. Write errors are logged and swallowed so
+ * metering can never fail a user request.
+ */
+export class UsageLedger {
+  private readonly collection: string;
+  private readonly rollupCollection: string;
+  private readonly totalsCollection: string;
+  private readonly now: () => number;
+  // Spend by UTC day whose totals write failed: retried with the next write, and counted by getSpend meanwhile
+  private readonly unrecordedUsd = new Map<string, number>();
+
+  constructor(private readonly db: Firestore, options: UsageLedgerOptions = {}) {
+    this.collection = options.collection ?? "usageLedger";
+    this.rollupCollection = options.rollupCollection ?? "usageDaily";
+    this.totalsCollection = options.totalsCollection ?? "usageTotals";
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Adds one call to the device ledger, the daily rollup and the spend totals.
+   * The rollup and totals are written to one random shard each, keeping every
+   * document under Firestore's sustained write rate. The ledger entry is
+   * written on its own, so a failed rollup and totals write cannot lose it.
+   *
+   * @returns Estimated cost of the call in USD
+   */
+  async record(event: UsageEvent): Promise<number> {
+    const now = this.now();
+    const day = utcDayKey(now);
+    const costUsd = estimateCostUsd(event.usage, event.model, event.provider);
+    const increments = {
+      calls: FieldValue.increment(1),
+      inputTokens: FieldValue.increment(event.usage.inputTokens),
+      outputTokens: FieldValue.increment(event.usage.outputTokens),
+      searchQueries: FieldValue.increment(event.usage.searchQueries),
+      retries: FieldValue.increment(event.retryReason ? 1 : 0),
+      costUsd: FieldValue.increment(costUsd),
+    };
+
+    const ledgerRef = this.db
+      .collection(this.collection)
+      .doc(`${day}_${event.functionName}_${event.provider}_${encodeURIComponent(event.deviceId)}`);
+    const rollupShard = Math.floor(Math.random() * ROLLUP_SHARDS);
+    // Shard 0 keeps the unsharded document ID, so rollups written before sharding still count
+    const rollupId = `${day}_${event.tier}_${event.functionName}_${event.provider}`;
+    const rollupRef = this.db
+      .collection(this.rollupCollection)
+      .doc(rollupShard === 0 ? rollupId : `${rollupId}_${rollupShard}`);
+    const shard = Math.floor(Math.random() * SPEND_TOTAL_SHARDS);
+
+    const ledgerWrite = event.sharedIdentity ? Promise.resolve() : ledgerRef.set({
+      day,
+      deviceId: event.deviceId,
+      functionName: event.functionName,
+      provider: event.provider,
+      // Last seen values; the counters are what matter
+      model: event.model,
+      tier: event.tier,
+      ...increments,
+      // Field for a Firestore TTL policy
+      expiresAt: new Date(now + USAGE_LEDGER_TTL_MS),
+    }, { merge: true });
+
+    const rollups = this.db.batch();
+    rollups.set(rollupRef, {
+      day,
+      tier: event.tier,
+      functionName: event.functionName,
+      provider: event.provider,
+      ...increments,
+      ...(event.retryReason ? { retryReasons: { [event.retryReason]: FieldValue.increment(1) } } : {}),
+    }, { merge: true });
+    const spend = new Map(this.unrecordedUsd);
+    spend.set(day, (spend.get(day) ?? 0) + costUsd);
+    this.unrecordedUsd.clear();
+    for (const [spendDay, usd] of spend) {
+      rollups.set(this.totalsRef("day", spendDay, shard), { costUsd: FieldValue.increment(usd) }, { merge: true });
+      rollups.set(this.totalsRef("month", spendDay.slice(0, 7), shard), { costUsd: FieldValue.increment(usd) }, { merge: true });
+    }
+
+    const [ledger, rollup] = await Promise.allSettled([ledgerWrite, rollups.commit()]);
+    if (ledger.status === "rejected") {
+      console.error(`[usageLedger] Ledger write failed for ${event.functionName}/${event.deviceId}: ${ledger.reason}`);
+    }
+    if (rollup.status === "rejected") {
+      console.error(`[usageLedger] Rollup write failed for ${event.functionName}/${event.deviceId}: ${rollup.reason}`);
+      for (const [spendDay, usd] of spend) {
+        this.unrecordedUsd.set(spendDay, (this.unrecordedUsd.get(spendDay) ?? 0) + usd);
+      }
+    }
+    return costUsd;
+  }
+
+  /**
+   * Estimated global spend for the current UTC day and month, summed over the
+   * total shards, plus this instance's spend whose totals write failed
+   */
+  async getSpend(): Promise<SpendTotals> {
+    const day = utcDayKey(this.now());
+    const month = day.slice(0, 7);
+    const [dailyUsd, monthlyUsd] = await Promise.all([
+      this.readTotal("day", day),
+      this.readTotal("month", month),
+    ]);
+    let unrecordedMonthUsd = 0;
+    for (const [spendDay, usd] of this.unrecordedUsd) {
+      if (spendDay.startsWith(month)) unrecordedMonthUsd += usd;
+    }
+    return {
+      dailyUsd: dailyUsd + (this.unrecordedUsd.get(day) ?? 0),
+      monthlyUsd: monthlyUsd + unrecordedMonthUsd,
+    };
+  }
+
+  private async readTotal(period: "day" | "month", key: string): Promise<number> {
+    const shards = await Promise.all(
+      Array.from({ length: SPEND_TOTAL_SHARDS }, (_, shard) => this.totalsRef(period, key, shard).get())
+    );
+    return shards.reduce((sum, shard) => sum + (shard.exists ? shard.get("costUsd") as number : 0), 0);
+  }
+
+  // Shard 0 keeps the unsharded document ID, so totals written before sharding still count
+  private totalsRef(period: "day" | "month", key: string, shard: number) {
+    return this.db.collection(this.totalsCollection).doc(shard === 0 ? `${period}_${key}` : `${period}_${key}_${shard}`);
+  }
+
+  /**
+   * Daily rollups between two UTC days (inclusive), optionally narrowed by tier, function or provider
+   */
+  async queryRollups(filter: RollupFilter): Promise<UsageSummary> {
+    // Range on a single field needs no composite index; the rest is filtered in memory
+    const snapshot = await this.db
+      .collection(this.rollupCollection)
+      .where("day", ">=", filter.from)
+      .where("day", "<=", filter.to)
+      .get();
+    return summarizeRollups(mergeRollupShards(snapshot.docs.map((doc) => doc.data() as DailyRollup)), filter);
+  }
+}